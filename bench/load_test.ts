@@ -10,7 +10,8 @@ import 'reflect-metadata';
 
 import 'source-map-support/register';
 import { performance } from 'perf_hooks';
-import { MarkovStore } from '../src/markov-store';
+import { buildChainLinks, MarkovStore, StoreInput } from '../src/markov-store';
+import { MarkovStoreBackend } from '../src/corpus';
 import { getWorkerPool } from '../src/workers/worker-pool';
 import fs from 'fs/promises';
 import path from 'path';
@@ -24,6 +25,20 @@ interface LoadTestConfig {
   testDataSize: number; // Number of test messages to use
   outputFile: string;
   useOptimized: boolean; // Whether to use optimized components
+  benchmarkTraining: boolean; // Whether to time store training before the load test
+}
+
+// Training benchmark interface
+interface TrainingBenchmark {
+  messageCount: number;
+  linkCount: number;
+  hotPrefixSuffixes: number; // Distinct suffixes of the most common prefix
+  addInputMs: number; // Adding one message at a time
+  addManyMs: number; // Adding batches of messages with addMany
+  addInputPerSecond: number;
+  addManyPerSecond: number;
+  speedup: number;
+  firstSampleMs: number; // Generating once after training, which rebuilds the alias tables
 }
 
 // Test result interface
@@ -40,6 +55,7 @@ interface TestResult {
     p95Latency: number;
     p99Latency: number;
   };
+  training?: TrainingBenchmark;
   latencies: number[];
   errors: string[];
   memoryUsage: {
@@ -58,9 +74,14 @@ const defaultConfig: LoadTestConfig = {
   guildId: 'load-test-guild',
   testDataSize: 1000,
   outputFile: `load_test_${new Date().toISOString().replace(/:/g, '-')}.json`,
-  useOptimized: true
+  useOptimized: true,
+  benchmarkTraining: true
 };
 
+// Prefix shared by a share of the training messages, giving it many distinct suffixes
+const HOT_PREFIX = 'i am';
+const TRAINING_BATCH_SIZE = 1000;
+
 // Test data generator
 class TestDataGenerator {
   private words: string[] = [
@@ -92,6 +113,23 @@ class TestDataGenerator {
     return data;
   }
 
+  // Messages where a share start with the same prefix followed by a rarely repeated word,
+  // like "I am ..." in real chat
+  generateSkewedMessages(count: number, hotShare = 0.3): string[] {
+    const messages: string[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const message = this.generateMessage();
+      messages.push(
+        Math.random() < hotShare
+          ? `${HOT_PREFIX} word${Math.floor(Math.random() * count)} ${message}`
+          : message
+      );
+    }
+
+    return messages;
+  }
+
   generatePrefixes(count: number): string[] {
     const prefixes: string[] = [];
 
@@ -136,60 +174,77 @@ class LoadTester {
     }
   }
 
-  // Generate training data
-  private async setupTrainingData(): Promise<Array<{ prefix: string; suffix: string; weight: number }>> {
-    console.log(`Generating ${this.config.testDataSize} training messages...`);
-
-    const messages = this.generator.generateTrainingData(this.config.testDataSize);
-    const trainingData: Array<{ prefix: string; suffix: string; weight: number }> = [];
-
-    for (const msg of messages) {
-      const words = msg.message.split(' ');
-      for (let i = 0; i < words.length - 1; i++) {
-        trainingData.push({
-          prefix: words[i],
-          suffix: words[i + 1],
-          weight: 1
-        });
-      }
-    }
-
-    console.log(`Generated ${trainingData.length} training pairs`);
-    return trainingData;
+  // The backend under test: the guild's store, using the worker pool when optimized
+  private getBackend(): MarkovStoreBackend {
+    return new MarkovStoreBackend(
+      this.config.guildId,
+      undefined,
+      this.config.useOptimized ? { workerPool: getWorkerPool(2), trainInWorkers: true } : {}
+    );
   }
 
   // Build chains (training phase)
   private async buildChains(): Promise<void> {
     console.log('Building Markov chains...');
+    console.log(`Generating ${this.config.testDataSize} training messages...`);
+    const messages = this.generator
+      .generateTrainingData(this.config.testDataSize)
+      .map(msg => ({ string: msg.message }));
 
-    if (this.config.useOptimized) {
-      const workerPool = getWorkerPool(2);
-      const trainingData = await this.setupTrainingData();
-
-      // Split data into chunks for workers
-      const chunkSize = Math.ceil(trainingData.length / 2);
-      const chunk1 = trainingData.slice(0, chunkSize);
-      const chunk2 = trainingData.slice(chunkSize);
-
-      const [result1, result2] = await Promise.all([
-        workerPool.buildChains(this.config.guildId, chunk1, true, 2),
-        workerPool.buildChains(this.config.guildId, chunk2, false, 2)
-      ]);
-
-      console.log(`Chains built: ${result1.processedCount + result2.processedCount} entries`);
-    } else {
-      // Fallback to basic implementation
-      const store = new MarkovStore(this.config.guildId);
-      await store.load();
-      store.clear();
-
-      const trainingData = await this.setupTrainingData();
-      for (const item of trainingData) {
-        store.addPrefix(item.prefix, item.suffix, item.weight);
-      }
-      await store.save();
-      console.log('Basic training completed');
+    const backend = this.getBackend();
+    await backend.clear();
+    await backend.add(messages);
+
+    const stats = await backend.getStats();
+    console.log(`Chains built from ${stats.inputCount} of ${messages.length} messages (${stats.prefixCount} prefixes)`);
+  }
+
+  // Time training a store with single adds and with addMany
+  private async benchmarkTraining(): Promise<TrainingBenchmark> {
+    console.log(`Benchmarking training on ${this.config.testDataSize} skewed messages...`);
+
+    const inputs: StoreInput[] = this.generator
+      .generateSkewedMessages(this.config.testDataSize)
+      .map((message, i) => ({ links: buildChainLinks(message, 2), tags: [String(i)] }));
+    const linkCount = inputs.reduce((sum, input) => sum + input.links.length, 0);
+
+    const singleStore = new MarkovStore(this.config.guildId, { persist: false });
+    let start = performance.now();
+    for (const input of inputs) {
+      singleStore.addInput(input.links, input.tags);
+    }
+    const addInputMs = performance.now() - start;
+
+    const bulkStore = new MarkovStore(this.config.guildId, { persist: false });
+    start = performance.now();
+    for (let i = 0; i < inputs.length; i += TRAINING_BATCH_SIZE) {
+      bulkStore.addMany(inputs.slice(i, i + TRAINING_BATCH_SIZE));
     }
+    const addManyMs = performance.now() - start;
+    this.updateMemoryPeak();
+
+    start = performance.now();
+    bulkStore.generate(HOT_PREFIX, 30);
+    const firstSampleMs = performance.now() - start;
+
+    const hotPrefixSuffixes = new Set(
+      inputs
+        .flatMap(input => input.links)
+        .filter(([prefix]) => prefix === HOT_PREFIX)
+        .map(([, suffix]) => suffix)
+    ).size;
+
+    return {
+      messageCount: inputs.length,
+      linkCount,
+      hotPrefixSuffixes,
+      addInputMs,
+      addManyMs,
+      addInputPerSecond: (inputs.length / addInputMs) * 1000,
+      addManyPerSecond: (inputs.length / addManyMs) * 1000,
+      speedup: addInputMs / addManyMs,
+      firstSampleMs
+    };
   }
 
   // Run generation load test
@@ -227,23 +282,14 @@ class LoadTester {
     endTime: number
   ): Promise<void> {
     const latencies: number[] = [];
+    const backend = this.getBackend();
 
     while (Date.now() < endTime) {
       const start = performance.now();
 
       try {
-        if (this.config.useOptimized) {
-          // Use worker pool
-          const workerPool = getWorkerPool(2);
-          const prefix = prefixes[Math.floor(Math.random() * prefixes.length)];
-          await workerPool.generateResponse(this.config.guildId, prefix, 30, 1.0, 1);
-        } else {
-          // Use basic store
-          const store = new MarkovStore(this.config.guildId);
-          await store.load();
-          const prefix = prefixes[Math.floor(Math.random() * prefixes.length)];
-          store.generate(prefix, 30);
-        }
+        const prefix = prefixes[Math.floor(Math.random() * prefixes.length)];
+        await backend.generate({ seed: prefix, maxLength: 30 });
 
         const latency = performance.now() - start;
         latencies.push(latency);
@@ -302,6 +348,8 @@ class LoadTester {
     console.log('Configuration:', JSON.stringify(this.config, null, 2));
 
     try {
+      const training = this.config.benchmarkTraining ? await this.benchmarkTraining() : undefined;
+
       // Build chains
       await this.buildChains();
 
@@ -315,6 +363,7 @@ class LoadTester {
       const result: TestResult = {
         config: this.config,
         summary,
+        training,
         latencies: this.results,
         errors: this.errors,
         memoryUsage: {
@@ -331,6 +380,16 @@ class LoadTester {
         JSON.stringify(result, null, 2)
       );
 
+      if (training) {
+        console.log('\n=== Training Benchmark ===');
+        console.log(`Messages: ${training.messageCount} (${training.linkCount} links)`);
+        console.log(`Suffixes of "${HOT_PREFIX}": ${training.hotPrefixSuffixes}`);
+        console.log(`addInput: ${training.addInputMs.toFixed(2)}ms (${training.addInputPerSecond.toFixed(0)} msg/s)`);
+        console.log(`addMany: ${training.addManyMs.toFixed(2)}ms (${training.addManyPerSecond.toFixed(0)} msg/s)`);
+        console.log(`Speedup: ${training.speedup.toFixed(2)}x`);
+        console.log(`First sample after training: ${training.firstSampleMs.toFixed(2)}ms`);
+      }
+
       console.log('\n=== Load Test Results ===');
       console.log(`Total Requests: ${summary.totalRequests}`);
       console.log(`Requests/sec: ${summary.requestsPerSecond.toFixed(2)}`);
@@ -386,6 +445,9 @@ async function main() {
         case 'optimized':
           config.useOptimized = value === 'true';
           break;
+        case 'benchmark-training':
+          config.benchmarkTraining = value === 'true';
+          break;
       }
     }
   }
@@ -400,4 +462,4 @@ if (require.main === module) {
   main().catch(console.error);
 }
 
-export { LoadTester, TestDataGenerator, LoadTestConfig, TestResult };
\ No newline at end of file
+export { LoadTester, TestDataGenerator, LoadTestConfig, TestResult, TrainingBenchmark };
\ No newline at end of file
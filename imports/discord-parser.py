@@ -50,6 +50,11 @@ def parse_discord_export(input_file, output_dir):
             message_obj = {
                 'message': stripped_content
             }
+
+            # Keep the author ID so opted out members can be skipped and forgotten later
+            author_id = msg.get('author', {}).get('id')
+            if author_id:
+                message_obj['authorId'] = author_id
             
             # If there are attachments, add them to the message object
             if msg['attachments']:
@@ -0,0 +1,81 @@
+import { config } from './config';
+import { Channel } from './entity/Channel';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * When each channel last auto-responded
+ */
+const lastResponseAt = new Map<string, number>();
+
+/**
+ * When each member was auto-responded to in the last hour, keyed by `channelId:userId`
+ */
+const userResponseTimes = new Map<string, number[]>();
+
+/**
+ * Gets the hour of the day, 0 to 23, in a timezone
+ */
+export function getHourInTimezone(date: Date, timeZone = config.timezone): number {
+  const hour = new Intl.DateTimeFormat('en-US', { hour: 'numeric', hourCycle: 'h23', timeZone })
+    .formatToParts(date)
+    .find((part) => part.type === 'hour');
+  return Number(hour?.value ?? date.getUTCHours());
+}
+
+/**
+ * Checks if an hour falls in quiet hours, which may wrap past midnight (e.g. 22 to 7)
+ */
+export function isQuietHour(hour: number, start: number | null, end: number | null): boolean {
+  if (start === null || end === null || start === end) return false;
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+/**
+ * Decides whether to auto-respond to a message, applying the channel's quiet hours, cooldown,
+ * per-member hourly limit and response probability. A response is counted as soon as it's
+ * allowed, so messages arriving while it's generated are limited too.
+ */
+export function takeAutoResponse(channel: Channel, userId: string, now = Date.now()): boolean {
+  const hour = getHourInTimezone(new Date(now));
+  if (isQuietHour(hour, channel.quietHoursStart, channel.quietHoursEnd)) return false;
+
+  const lastResponse = lastResponseAt.get(channel.id);
+  if (lastResponse !== undefined && now - lastResponse < channel.autoRespondCooldown * 1000) {
+    return false;
+  }
+
+  const userKey = `${channel.id}:${userId}`;
+  const recentResponses = (userResponseTimes.get(userKey) ?? []).filter(
+    (time) => now - time < HOUR_MS,
+  );
+  if (
+    channel.autoRespondUserHourlyLimit > 0 &&
+    recentResponses.length >= channel.autoRespondUserHourlyLimit
+  ) {
+    userResponseTimes.set(userKey, recentResponses);
+    return false;
+  }
+
+  if (Math.random() >= channel.autoRespondProbability) return false;
+
+  lastResponseAt.set(channel.id, now);
+  userResponseTimes.set(userKey, [...recentResponses, now]);
+  return true;
+}
+
+/**
+ * Summarizes a channel's auto-respond limits for `/autorespond list`
+ */
+export function describeAutoRespondLimits(channel: Channel): string {
+  const limits = [`${Math.round(channel.autoRespondProbability * 100)}% of messages`];
+  if (channel.autoRespondCooldown > 0) limits.push(`${channel.autoRespondCooldown}s cooldown`);
+  if (channel.autoRespondUserHourlyLimit > 0) {
+    limits.push(`${channel.autoRespondUserHourlyLimit} per member per hour`);
+  }
+  const { quietHoursStart, quietHoursEnd } = channel;
+  if (quietHoursStart !== null && quietHoursEnd !== null && quietHoursStart !== quietHoursEnd) {
+    limits.push(`quiet ${quietHoursStart}:00-${quietHoursEnd}:00 (${config.timezone})`);
+  }
+  return limits.join(', ');
+}
@@ -0,0 +1,162 @@
+import { config } from './config';
+import {
+  applyWrites,
+  CorpusBackend,
+  getCorpusBackend,
+  MarkovStringsDbBackend,
+  pauseWrites,
+  resolveBackendName,
+  resumeWrites,
+} from './corpus';
+import type { CorpusBackendName } from './entity/GuildSettings';
+import { setGuildBackend } from './guild-settings';
+import L from './logger';
+import { migrateGuildToStore, StoreMigrationProgress } from './migrate-store';
+
+/**
+ * A guild being moved to another backend
+ */
+export interface BackendSwitch {
+  guildId: string;
+  from: CorpusBackendName;
+  to: CorpusBackendName;
+  startedAt: Date;
+  progress: StoreMigrationProgress;
+}
+
+/**
+ * Outcome of a backend switch
+ */
+export interface BackendSwitchResult {
+  guildId: string;
+  from: CorpusBackendName;
+  to: CorpusBackendName;
+  copiedMessages: number;
+  /** Whether the new backend was checked to hold everything copied into it */
+  verified: boolean;
+  /** Whether the guild now uses the new backend */
+  switched: boolean;
+}
+
+export interface BackendSwitchOptions {
+  onProgress?: (progress: StoreMigrationProgress) => void | Promise<void>;
+}
+
+const activeSwitches = new Map<string, BackendSwitch>();
+
+/**
+ * Gets the switch running in a guild, if any
+ */
+export function getBackendSwitch(guildId: string): BackendSwitch | undefined {
+  return activeSwitches.get(guildId);
+}
+
+/**
+ * Replace everything in `target` with the messages in `source`
+ */
+async function copyCorpus(
+  source: CorpusBackend,
+  target: CorpusBackend,
+  onProgress: (progress: StoreMigrationProgress) => Promise<void>,
+): Promise<{ copiedMessages: number; verified: boolean }> {
+  const { inputCount: totalMessages } = await source.getStats();
+  await target.clear();
+
+  let processedMessages = 0;
+  for await (const page of source.export(config.batchSize)) {
+    // eslint-disable-next-line no-await-in-loop
+    await target.add(page);
+    processedMessages += page.length;
+    // eslint-disable-next-line no-await-in-loop
+    await onProgress({ processedMessages, totalMessages });
+  }
+
+  const { inputCount } = await target.getStats();
+  if (inputCount !== processedMessages) {
+    L.error(
+      { guildId: target.guildId, copied: processedMessages, inputCount },
+      'Copied corpus counts do not match',
+    );
+  }
+  return { copiedMessages: processedMessages, verified: inputCount === processedMessages };
+}
+
+/**
+ * Apply the writes held back during a switch to the backend the guild uses now
+ */
+async function releaseWrites(guildId: string): Promise<void> {
+  const writes = resumeWrites(guildId);
+  try {
+    await applyWrites(await getCorpusBackend(guildId), writes);
+  } catch (err) {
+    L.error({ err, guildId, writes: writes.length }, 'Failed to apply writes held back by switch');
+  }
+}
+
+/**
+ * Moves a guild to another backend while it keeps generating from the current one.
+ *
+ * The guild's corpus is copied into the new backend and checked. Only then is the new backend
+ * recorded for the guild, in a single update, so every later request uses it. If the copy fails
+ * or doesn't match, the partial copy is cleared and the guild stays where it was. Messages
+ * learned or forgotten during the copy are held back and applied to whichever backend the guild
+ * ends up using.
+ * @throws If the guild is already switching or already uses `to`
+ */
+export async function switchGuildBackend(
+  guildId: string,
+  to: CorpusBackendName,
+  options: BackendSwitchOptions = {},
+): Promise<BackendSwitchResult> {
+  if (activeSwitches.has(guildId)) throw new Error('This server is already switching backends.');
+  if (to === 'markov-store' && !config.enableMarkovStore) {
+    throw new Error('The optimized store is disabled in the bot config (`enableMarkovStore`).');
+  }
+  const from = await resolveBackendName(guildId);
+  if (from === to) throw new Error(`This server already uses ${to}.`);
+
+  const state: BackendSwitch = {
+    guildId,
+    from,
+    to,
+    startedAt: new Date(),
+    progress: { processedMessages: 0, totalMessages: 0 },
+  };
+  const onProgress = async (progress: StoreMigrationProgress): Promise<void> => {
+    state.progress = progress;
+    await options.onProgress?.(progress);
+  };
+  activeSwitches.set(guildId, state);
+  pauseWrites(guildId);
+  L.info({ guildId, from, to }, 'Switching corpus backend');
+
+  try {
+    const source = await getCorpusBackend(guildId, from);
+    let copy: { copiedMessages: number; verified: boolean };
+    if (source instanceof MarkovStringsDbBackend) {
+      const result = await migrateGuildToStore(source, { switchBackend: false, onProgress });
+      copy = { copiedMessages: result.migratedMessages, verified: result.verified };
+    } else {
+      copy = await copyCorpus(source, await getCorpusBackend(guildId, to), onProgress);
+    }
+    const { copiedMessages, verified } = copy;
+
+    if (verified) {
+      // The only change the guild's requests can see, so they use one backend or the other
+      await setGuildBackend(guildId, to);
+    } else {
+      await (await getCorpusBackend(guildId, to)).clear();
+    }
+    L.info({ guildId, from, to, copiedMessages, switched: verified }, 'Corpus backend switch done');
+    return { guildId, from, to, copiedMessages, verified, switched: verified };
+  } catch (err) {
+    L.error({ err, guildId, from, to }, 'Corpus backend switch failed, rolling back');
+    await (await getCorpusBackend(guildId, to)).clear().catch((clearErr) => {
+      L.error({ err: clearErr, guildId, backend: to }, 'Failed to clear partial copy');
+    });
+    throw err;
+  } finally {
+    activeSwitches.delete(guildId);
+    await releaseWrites(guildId);
+  }
+}
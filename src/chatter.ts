@@ -0,0 +1,176 @@
+import { IsNull, Not } from 'typeorm';
+import { Channel } from './entity/Channel';
+import L from './logger';
+
+/**
+ * Posts an unprompted message in a channel
+ */
+export type PostChatter = (channelId: string) => Promise<void>;
+
+/**
+ * Longest delay `setTimeout` accepts. Longer waits are split into several timers.
+ */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+let postChatter: PostChatter | null = null;
+
+/**
+ * Messages seen in each chatter channel since the bot last posted there. Only kept in memory,
+ * so a restart starts the count over.
+ */
+const messageCounts = new Map<string, number>();
+
+/**
+ * The random inactivity wait of each chatter channel, in ms, drawn once the bot posts and kept
+ * until it next posts, so each message only moves the post back by the time since the last one
+ */
+const idleWaits = new Map<string, number>();
+
+/**
+ * How far the inactivity post has to move before its saved time is updated. The saved time is
+ * only used after a restart, so it's allowed to lag behind a busy channel's timer.
+ */
+const DUE_AT_SAVE_THRESHOLD_MS = 60 * 1000;
+
+/**
+ * Pending inactivity posts, by channel ID
+ */
+const idleTimers = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Checks if a channel has chatter turned on with at least one trigger
+ */
+export function isChatterEnabled(channel: Channel): boolean {
+  return (
+    channel.listen &&
+    channel.chatter &&
+    (channel.chatterMessageInterval > 0 || channel.chatterIdleMaxMinutes > 0)
+  );
+}
+
+/**
+ * Summarizes a channel's chatter triggers for `/chatter list`
+ */
+export function describeChatter(channel: Channel): string {
+  const triggers: string[] = [];
+  if (channel.chatterMessageInterval > 0) {
+    triggers.push(`every ${channel.chatterMessageInterval} messages`);
+  }
+  if (channel.chatterIdleMaxMinutes > 0) {
+    triggers.push(
+      `after ${channel.chatterIdleMinMinutes}-${channel.chatterIdleMaxMinutes} minutes of inactivity`,
+    );
+  }
+  return triggers.join(' or ');
+}
+
+async function runChatter(channelId: string): Promise<void> {
+  messageCounts.set(channelId, 0);
+  idleWaits.delete(channelId);
+  if (!postChatter) return;
+  try {
+    await postChatter(channelId);
+  } catch (err) {
+    L.error({ err, channelId }, 'Failed to post chatter');
+  }
+}
+
+function clearIdleTimer(channelId: string): void {
+  clearTimeout(idleTimers.get(channelId));
+  idleTimers.delete(channelId);
+}
+
+/**
+ * Schedule the inactivity post of a channel, replacing any pending one
+ */
+function scheduleIdlePost(channelId: string, dueAt: Date): void {
+  clearIdleTimer(channelId);
+  const delay = Math.max(0, dueAt.getTime() - Date.now());
+  const timer = setTimeout(
+    async () => {
+      if (Date.now() < dueAt.getTime()) {
+        scheduleIdlePost(channelId, dueAt);
+        return;
+      }
+      idleTimers.delete(channelId);
+      try {
+        // The bot's own post isn't activity, so it waits for the next message before rescheduling
+        await Channel.update({ id: channelId }, { chatterDueAt: null });
+        await runChatter(channelId);
+      } catch (err) {
+        L.error({ err, channelId }, 'Failed to run scheduled chatter');
+      }
+    },
+    Math.min(delay, MAX_TIMER_MS),
+  );
+  idleTimers.set(channelId, timer);
+}
+
+/**
+ * Resume the inactivity posts that were pending when the bot stopped
+ * @param post Posts a generated message in a channel, checking it's still allowed to
+ */
+export async function startChatterScheduler(post: PostChatter): Promise<void> {
+  postChatter = post;
+  const channels = await Channel.findBy({ chatter: true, chatterDueAt: Not(IsNull()) });
+  channels.filter(isChatterEnabled).forEach((channel) => {
+    scheduleIdlePost(channel.id, channel.chatterDueAt!);
+  });
+  L.info({ pendingPosts: idleTimers.size }, 'Chatter scheduler started');
+}
+
+/**
+ * Cancel all pending inactivity posts, leaving them saved for the next start
+ */
+export function stopChatterScheduler(): void {
+  idleTimers.forEach((timer) => clearTimeout(timer));
+  idleTimers.clear();
+  postChatter = null;
+}
+
+/**
+ * Count a human message in a chatter channel, posting once enough messages have been sent
+ * and otherwise pushing back the inactivity post
+ */
+export async function recordChatterActivity(channel: Channel): Promise<void> {
+  if (!isChatterEnabled(channel)) return;
+
+  const count = (messageCounts.get(channel.id) ?? 0) + 1;
+  if (channel.chatterMessageInterval > 0 && count >= channel.chatterMessageInterval) {
+    clearIdleTimer(channel.id);
+    await Channel.update({ id: channel.id }, { chatterDueAt: null });
+    await runChatter(channel.id);
+    return;
+  }
+  messageCounts.set(channel.id, count);
+
+  if (channel.chatterIdleMaxMinutes > 0) {
+    let wait = idleWaits.get(channel.id);
+    if (wait === undefined) {
+      const minMinutes = Math.min(channel.chatterIdleMinMinutes, channel.chatterIdleMaxMinutes);
+      const minutes = minMinutes + Math.random() * (channel.chatterIdleMaxMinutes - minMinutes);
+      wait = minutes * 60 * 1000;
+      idleWaits.set(channel.id, wait);
+    }
+    const dueAt = new Date(Date.now() + wait);
+    scheduleIdlePost(channel.id, dueAt);
+    const savedDueAt = channel.chatterDueAt?.getTime();
+    if (
+      savedDueAt === undefined ||
+      Math.abs(dueAt.getTime() - savedDueAt) >= DUE_AT_SAVE_THRESHOLD_MS
+    ) {
+      await Channel.update({ id: channel.id }, { chatterDueAt: dueAt });
+    }
+  }
+}
+
+/**
+ * Apply changed chatter settings: the message count starts over and any pending inactivity post
+ * is dropped until the next message
+ */
+export async function resetChatter(channelId: string): Promise<void> {
+  messageCounts.delete(channelId);
+  idleWaits.delete(channelId);
+  clearIdleTimer(channelId);
+  await Channel.update({ id: channelId }, { chatterDueAt: null });
+}
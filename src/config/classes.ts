@@ -159,6 +159,44 @@ export class AppConfig {
   @IsInt()
   minScore = process.env.MIN_SCORE ? parseInt(process.env.MIN_SCORE, 10) : 10;
 
+  /**
+   * How adventurous generated sentences are. Below 1 sticks to the most common word choices,
+   * above 1 picks rare ones more often. Only applies to the optimized MarkovStore.
+   * @example 0.8
+   * @default 1
+   * @env TEMPERATURE
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(0.1)
+  @Max(5)
+  temperature = process.env.TEMPERATURE ? parseFloat(process.env.TEMPERATURE) : 1;
+
+  /**
+   * Only pick each next word from this many of the most common choices. 0 considers all of them.
+   * Only applies to the optimized MarkovStore.
+   * @example 10
+   * @default 0
+   * @env TOP_K
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  topK = process.env.TOP_K ? parseInt(process.env.TOP_K, 10) : 0;
+
+  /**
+   * Only pick each next word from the most common choices that together make up this share of
+   * the probability. 1 considers all of them. Only applies to the optimized MarkovStore.
+   * @example 0.9
+   * @default 1
+   * @env TOP_P
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(0.01)
+  @Max(1)
+  topP = process.env.TOP_P ? parseFloat(process.env.TOP_P) : 1;
+
   /**
    * This guild ID should be declared if you want its commands to update immediately during development
    * @example 1234567890
@@ -220,6 +258,36 @@ export class AppConfig {
   @Max(16)
   workerPoolSize = process.env.WORKER_POOL_SIZE ? parseInt(process.env.WORKER_POOL_SIZE, 10) : 4;
 
+  /**
+   * Maximum number of tasks waiting for a worker
+   * New tasks are rejected while the queue is full
+   * @example 1000
+   * @default 1000
+   * @env WORKER_QUEUE_SIZE
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100000)
+  workerQueueSize = process.env.WORKER_QUEUE_SIZE
+    ? parseInt(process.env.WORKER_QUEUE_SIZE, 10)
+    : 1000;
+
+  /**
+   * Time a worker task may run before it is rejected and its worker is restarted (in milliseconds).
+   * Loading a guild's store into the worker before its first task doesn't count.
+   * @example 10000
+   * @default 10000
+   * @env WORKER_TASK_TIMEOUT_MS
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(100)
+  @Max(300000)
+  workerTaskTimeoutMs = process.env.WORKER_TASK_TIMEOUT_MS
+    ? parseInt(process.env.WORKER_TASK_TIMEOUT_MS, 10)
+    : 10000;
+
   /**
    * Enable batch processing optimizations in training
    * Uses worker pool for parallel batch processing
@@ -298,9 +366,27 @@ export class AppConfig {
     ? process.env.OPTIMIZATION_FORCE_GUILD_IDS.split(',').map((id) => id.trim())
     : [];
 
+  /**
+   * Percentage of generations to also run on the backend a guild isn't using (0-100)
+   * The extra result is discarded, but both are timed and scored so `/store shadow-report` can
+   * tell whether the guild is safe to switch. While above 0, learning and forgetting are applied
+   * to both backends so their corpora stay comparable. Requires `enableMarkovStore`.
+   * @example 10
+   * @default 0
+   * @env SHADOW_SAMPLE_PERCENTAGE
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  shadowSamplePercentage = process.env.SHADOW_SAMPLE_PERCENTAGE
+    ? parseFloat(process.env.SHADOW_SAMPLE_PERCENTAGE)
+    : 0;
+
   /**
    * Enable performance monitoring and metrics collection
-   * Collects timing data for optimization validation
+   * Collects timing data for optimization validation. Metrics are served in the Prometheus text
+   * format on `metricsPort`, and summarized for bot owners by `/metrics`.
    * @example true
    * @default false
    * @env ENABLE_PERFORMANCE_MONITORING
@@ -308,4 +394,28 @@ export class AppConfig {
   @IsOptional()
   @IsBoolean()
   enablePerformanceMonitoring = process.env.ENABLE_PERFORMANCE_MONITORING === 'true' || false;
+
+  /**
+   * Port of the HTTP server exposing metrics at `/metrics` for Prometheus to scrape
+   * Only started with `enablePerformanceMonitoring`
+   * @example 9464
+   * @default 9464
+   * @env METRICS_PORT
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(65535)
+  metricsPort = process.env.METRICS_PORT ? parseInt(process.env.METRICS_PORT, 10) : 9464;
+
+  /**
+   * Address the metrics server listens on. Only the machine running the bot can scrape it by
+   * default; use `0.0.0.0` to accept other hosts, e.g. from outside a Docker container.
+   * @example 0.0.0.0
+   * @default 127.0.0.1
+   * @env METRICS_HOST
+   */
+  @IsOptional()
+  @IsString()
+  metricsHost = process.env.METRICS_HOST || '127.0.0.1';
 }
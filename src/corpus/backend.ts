@@ -0,0 +1,131 @@
+import { performance } from 'perf_hooks';
+import type { CorpusBackendName } from '../entity/GuildSettings';
+import type { SamplingOptions, SeedStrategy } from '../markov-store';
+import { observeGeneration, observeTraining } from '../metrics';
+import { includesKeyword } from '../reply-context';
+import type { TrainingMessage } from '../workers/markov-worker';
+
+/**
+ * How to generate a sentence from a guild's corpus
+ */
+export interface CorpusGenerateOptions {
+  /** Words the sentence should start from */
+  seed?: string;
+  /** A message being replied to. The sentence includes one of its keywords when possible. */
+  replyTo?: string;
+  /** Ignored by backends that can't reshape their weights */
+  sampling?: SamplingOptions;
+  maxTries?: number;
+  minScore?: number;
+  /** Ignored by backends without a length limit */
+  maxLength?: number;
+}
+
+/**
+ * A generated sentence that passed the quality filter, shaped like a markov-strings-db result
+ */
+export interface CorpusGeneration {
+  string: string;
+  score: number;
+  /** The training messages the sentence was built from */
+  refs: TrainingMessage[];
+  /** How many attempts it took to pass the filter */
+  tries: number;
+  /** How the seed was matched to a prefix, for backends that back off */
+  strategy?: SeedStrategy;
+  /** The keywords taken from `replyTo`, which the sentence may not include */
+  keywords: string[];
+}
+
+/**
+ * Size of a guild's corpus
+ */
+export interface CorpusStats {
+  backend: CorpusBackendName;
+  inputCount: number;
+  /** Distinct prefixes, for backends that count them */
+  prefixCount?: number;
+  /** Approximate heap used in bytes, for backends held in memory */
+  estimatedMemory?: number;
+}
+
+/**
+ * A guild's learned messages and the chains built from them. Handlers only go through this
+ * interface, so guilds can be moved between backends without them noticing.
+ */
+export interface CorpusBackend {
+  readonly name: CorpusBackendName;
+  readonly guildId: string;
+  /**
+   * Learn from messages. Messages shorter than the guild's state size are skipped.
+   */
+  add(messages: TrainingMessage[]): Promise<void>;
+  /**
+   * Forget every message carrying any of the tags, e.g. a message, channel or author ID
+   */
+  removeTags(tags: string[]): Promise<void>;
+  /**
+   * @throws If no sentence passes the quality filter within `maxTries`
+   */
+  generate(options?: CorpusGenerateOptions): Promise<CorpusGeneration>;
+  /**
+   * Pick a learned message uniformly at random, e.g. to borrow its attachments
+   */
+  getRandomInput(): Promise<TrainingMessage | null>;
+  getStats(): Promise<CorpusStats>;
+  /**
+   * Forget everything learned in the guild
+   */
+  clear(): Promise<void>;
+  /**
+   * Read every learned message back, a page at a time, e.g. to copy them to another backend
+   */
+  export(pageSize?: number): AsyncGenerator<TrainingMessage[]>;
+}
+
+/**
+ * Run a backend's generation, timing it for the metrics
+ */
+export async function measureGeneration(
+  backend: CorpusBackendName,
+  generate: () => Promise<CorpusGeneration>,
+): Promise<CorpusGeneration> {
+  const start = performance.now();
+  try {
+    const generation = await generate();
+    observeGeneration(backend, performance.now() - start, false);
+    return generation;
+  } catch (err) {
+    observeGeneration(backend, performance.now() - start, true);
+    throw err;
+  }
+}
+
+/**
+ * Run a backend's training on a batch of messages, timing it for the metrics
+ */
+export async function measureTraining(
+  backend: CorpusBackendName,
+  messages: TrainingMessage[],
+  add: () => Promise<void>,
+): Promise<void> {
+  const start = performance.now();
+  await add();
+  observeTraining(backend, messages.length, performance.now() - start);
+}
+
+/**
+ * The filter every backend applies to generated sentences: score high enough, not a copy of
+ * one of the messages it was built from, and including a keyword when there are any
+ */
+export function passesQualityFilter(
+  sentence: { string: string; score: number; refs: Array<{ string: string }> },
+  minScore: number,
+  keywords: string[] = [],
+): boolean {
+  return (
+    sentence.score >= minScore &&
+    !sentence.refs.some((ref) => ref.string === sentence.string) &&
+    (keywords.length === 0 || includesKeyword(sentence.string, keywords))
+  );
+}
@@ -0,0 +1,122 @@
+import { config } from '../config';
+import type { CorpusBackendName } from '../entity/GuildSettings';
+import { getGuildBackend, getGuildSettings } from '../guild-settings';
+import L from '../logger';
+import { getMarkovStore } from '../markov-store';
+import { getShadowBackendName, isShadowModeEnabled } from '../shadow';
+import { getWorkerPool } from '../workers/worker-pool';
+import type { CorpusBackend } from './backend';
+import { MarkovStoreBackend } from './markov-store-backend';
+import { MarkovStringsDbBackend } from './markov-strings-db-backend';
+import { getPausedWrites, PausedCorpusBackend } from './paused-backend';
+import { ShadowCorpusBackend } from './shadow-backend';
+
+export * from './backend';
+export * from './markov-store-backend';
+export * from './markov-strings-db-backend';
+export * from './paused-backend';
+export * from './shadow-backend';
+
+/**
+ * Opens each kind of backend for a guild. A new backend only needs an entry here and a
+ * `CorpusBackendName`.
+ */
+const backendFactories: Record<
+  CorpusBackendName,
+  (guildId: string, stateSize: number) => Promise<CorpusBackend>
+> = {
+  'markov-strings-db': (guildId, stateSize) => MarkovStringsDbBackend.create(guildId, stateSize),
+  'markov-store': async (guildId, stateSize) => {
+    // Load the store up front, so a store that can't be opened falls back to markov-strings-db.
+    // A corrupted store loads empty and ignores writes rather than failing to load.
+    const store = await getMarkovStore(guildId);
+    if (store.isCorrupted()) throw new Error(`The MarkovStore of guild ${guildId} is corrupted`);
+    return new MarkovStoreBackend(guildId, stateSize, {
+      workerPool: getWorkerPool(config.workerPoolSize),
+      trainInWorkers: config.enableBatchOptimization,
+    });
+  },
+};
+
+/**
+ * The backends enabled in the bot config, which a guild may have learned into over time
+ */
+export function getEnabledBackendNames(): CorpusBackendName[] {
+  return config.enableMarkovStore ? ['markov-strings-db', 'markov-store'] : ['markov-strings-db'];
+}
+
+/**
+ * Determine which backend a guild uses: the one it was switched to, otherwise the optimized
+ * store if the guild is force-enabled or falls in the rollout percentage
+ */
+export async function resolveBackendName(guildId: string): Promise<CorpusBackendName> {
+  const enabled = getEnabledBackendNames();
+  // A backend chosen for this guild (e.g. by a store migration) takes precedence
+  const backend = await getGuildBackend(guildId);
+  if (backend) {
+    return enabled.includes(backend) ? backend : 'markov-strings-db';
+  }
+  if (!config.enableMarkovStore) return 'markov-strings-db';
+
+  // Check force-enable list first
+  if (config.optimizationForceGuildIds.includes(guildId)) {
+    return 'markov-store';
+  }
+
+  // Check rollout percentage
+  if (config.optimizationRolloutPercentage > 0) {
+    const hash = guildId.split('').reduce((a, b) => {
+      a = ((a << 5) - a) + b.charCodeAt(0);
+      return a & a;
+    }, 0);
+    const percentage = Math.abs(hash) % 100;
+    if (percentage < config.optimizationRolloutPercentage) return 'markov-store';
+  }
+
+  return 'markov-strings-db';
+}
+
+async function openServingBackend(guildId: string, stateSize: number): Promise<CorpusBackend> {
+  const resolved = await resolveBackendName(guildId);
+  try {
+    const backend = await backendFactories[resolved](guildId, stateSize);
+    L.debug({ guildId, backend: resolved }, 'Using corpus backend');
+    return backend;
+  } catch (err) {
+    if (resolved === 'markov-strings-db') throw err;
+    L.warn({ err, guildId, backend: resolved }, 'Failed to open corpus backend, falling back');
+    return backendFactories['markov-strings-db'](guildId, stateSize);
+  }
+}
+
+async function openDefaultBackend(guildId: string, stateSize: number): Promise<CorpusBackend> {
+  const serving = await openServingBackend(guildId, stateSize);
+  if (!isShadowModeEnabled()) return serving;
+  const shadowName = getShadowBackendName(serving.name);
+  try {
+    const shadow = await backendFactories[shadowName](guildId, stateSize);
+    return new ShadowCorpusBackend(serving, shadow);
+  } catch (err) {
+    L.warn({ err, guildId, backend: shadowName }, 'Failed to open shadow backend');
+    return serving;
+  }
+}
+
+/**
+ * Open a guild's corpus
+ * @param name A specific backend to open, e.g. to copy between them. Defaults to the one the
+ * guild uses, falling back to markov-strings-db if it can't be opened. In shadow mode, the
+ * default is shadowed by the other backend. While the guild's writes are paused, the default
+ * holds them back.
+ */
+export async function getCorpusBackend(
+  guildId: string,
+  name?: CorpusBackendName,
+): Promise<CorpusBackend> {
+  const { stateSize } = await getGuildSettings(guildId);
+  if (name) return backendFactories[name](guildId, stateSize);
+
+  const backend = await openDefaultBackend(guildId, stateSize);
+  const pausedWrites = getPausedWrites(guildId);
+  return pausedWrites ? new PausedCorpusBackend(backend, pausedWrites) : backend;
+}
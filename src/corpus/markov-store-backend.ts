@@ -0,0 +1,210 @@
+import { config } from '../config';
+import type { CorpusBackendName } from '../entity/GuildSettings';
+import L from '../logger';
+import {
+  buildChainLinks,
+  InputRef,
+  MarkovStore,
+  SamplingOptions,
+  withMarkovStore,
+} from '../markov-store';
+import { extractKeywords } from '../reply-context';
+import type { GenerationResult, TrainingMessage } from '../workers/markov-worker';
+import type { WorkerPool } from '../workers/worker-pool';
+import {
+  CorpusBackend,
+  CorpusGenerateOptions,
+  CorpusGeneration,
+  CorpusStats,
+  measureGeneration,
+  measureTraining,
+  passesQualityFilter,
+} from './backend';
+
+const DEFAULT_MAX_LENGTH = 100;
+
+/**
+ * A generation request for `generateFromStore`, with its keywords already picked
+ */
+export interface StoreGenerationRequest {
+  seed: string;
+  maxLength: number;
+  sampling: SamplingOptions;
+  maxTries: number;
+  minScore: number;
+  keywords: string[];
+}
+
+/**
+ * Sample sentences from a store until one passes the quality filter. With keywords, each try
+ * seeds with the next one, most salient first.
+ * @throws If no sentence passes within `maxTries`
+ */
+export function generateFromStore(
+  store: MarkovStore,
+  request: StoreGenerationRequest,
+): GenerationResult {
+  const { seed, maxLength, sampling, maxTries, minScore, keywords } = request;
+  for (let tries = 1; tries <= maxTries; tries++) {
+    const sentence = store.sample(
+      keywords.length > 0 ? keywords[(tries - 1) % keywords.length] : seed,
+      maxLength,
+      sampling,
+    );
+    const string = sentence.words.join(' ');
+    const refs = sentence.refs
+      .map((id) => store.getInputRef(id))
+      .filter((ref): ref is InputRef => ref !== null);
+
+    const result: GenerationResult = {
+      string,
+      score: sentence.score,
+      refs,
+      tries,
+      strategy: sentence.strategy,
+    };
+    if (sentence.words.length > 0 && passesQualityFilter(result, minScore, keywords)) {
+      return result;
+    }
+  }
+
+  throw new Error(`Failed to build a sentence after ${maxTries} tries`);
+}
+
+export interface MarkovStoreBackendOptions {
+  /** Generate in these workers instead of on the calling thread */
+  workerPool?: WorkerPool;
+  /** Also tokenize training messages in the worker pool, so large trains don't block */
+  trainInWorkers?: boolean;
+}
+
+/**
+ * A guild's corpus kept in its MarkovStore. The store is looked up for each request rather than
+ * held, since the cache may evict it between requests.
+ */
+export class MarkovStoreBackend implements CorpusBackend {
+  readonly name: CorpusBackendName = 'markov-store';
+  readonly guildId: string;
+  private readonly stateSize: number;
+  private readonly options: MarkovStoreBackendOptions;
+
+  constructor(
+    guildId: string,
+    stateSize = config.stateSize,
+    options: MarkovStoreBackendOptions = {},
+  ) {
+    this.guildId = guildId;
+    this.stateSize = stateSize;
+    this.options = options;
+  }
+
+  add(messages: TrainingMessage[]): Promise<void> {
+    return measureTraining(this.name, messages, () => this.addMessages(messages));
+  }
+
+  private addMessages(messages: TrainingMessage[]): Promise<void> {
+    return withMarkovStore(this.guildId, (store) => this.addToStore(store, messages));
+  }
+
+  private async addToStore(store: MarkovStore, messages: TrainingMessage[]): Promise<void> {
+    if (!store.isCompatibleStateSize(this.stateSize)) {
+      L.warn(
+        { storeStateSize: store.getStateSize(), stateSize: this.stateSize },
+        'Skipping data with a different state size than the store. Re-train to change it.',
+      );
+      return;
+    }
+    const { workerPool, trainInWorkers } = this.options;
+    if (workerPool && trainInWorkers) {
+      await workerPool.buildChains(this.guildId, messages, this.stateSize);
+      return;
+    }
+    store.addMany(
+      messages
+        .map((message) => ({
+          links: buildChainLinks(message.string, this.stateSize),
+          tags: message.tags,
+          custom: message.custom,
+        }))
+        // Sentences shorter than the state size have no prefix to start from
+        .filter(({ links }) => links.length > 0),
+    );
+  }
+
+  async removeTags(tags: string[]): Promise<void> {
+    await withMarkovStore(this.guildId, (store) => store.removeTags(tags));
+  }
+
+  generate(options: CorpusGenerateOptions = {}): Promise<CorpusGeneration> {
+    return measureGeneration(this.name, () => this.generateSentence(options));
+  }
+
+  private async generateSentence(options: CorpusGenerateOptions): Promise<CorpusGeneration> {
+    const keywords = options.replyTo
+      ? await withMarkovStore(this.guildId, (store) => extractKeywords(options.replyTo!, store))
+      : [];
+    const result = await this.sample(options, keywords).catch((err) => {
+      if (keywords.length === 0) throw err;
+      L.debug({ err, keywords }, 'No response with a keyword, generating without one');
+      return this.sample(options, []);
+    });
+    return {
+      string: result.string,
+      score: result.score,
+      refs: result.refs.map(({ string, tags, custom }) => ({ string, tags, custom })),
+      tries: result.tries,
+      strategy: result.strategy,
+      keywords,
+    };
+  }
+
+  private async sample(
+    options: CorpusGenerateOptions,
+    keywords: string[],
+  ): Promise<GenerationResult> {
+    const request: StoreGenerationRequest = {
+      seed: options.seed ?? '',
+      maxLength: options.maxLength ?? DEFAULT_MAX_LENGTH,
+      sampling: options.sampling ?? {},
+      maxTries: options.maxTries ?? 1,
+      minScore: options.minScore ?? 0,
+      keywords,
+    };
+    const { workerPool } = this.options;
+    if (!workerPool) {
+      return withMarkovStore(this.guildId, (store) => generateFromStore(store, request));
+    }
+    return workerPool.generateResponse(
+      this.guildId,
+      request.seed,
+      request.maxLength,
+      request.sampling,
+      1,
+      { maxTries: request.maxTries, minScore: request.minScore, keywords },
+    );
+  }
+
+  async getRandomInput(): Promise<TrainingMessage | null> {
+    const ref = await withMarkovStore(this.guildId, (store) => store.getRandomInputRef());
+    return ref && { string: ref.string, tags: ref.tags, custom: ref.custom };
+  }
+
+  async getStats(): Promise<CorpusStats> {
+    const { inputCount, prefixCount, estimatedMemory } = await withMarkovStore(
+      this.guildId,
+      (store) => store.getStats(),
+    );
+    return { backend: this.name, inputCount, prefixCount, estimatedMemory };
+  }
+
+  async clear(): Promise<void> {
+    await withMarkovStore(this.guildId, (store) => store.clear());
+  }
+
+  async *export(pageSize = config.batchSize): AsyncGenerator<TrainingMessage[]> {
+    const refs = await withMarkovStore(this.guildId, (store) => store.getInputRefs());
+    for (let i = 0; i < refs.length; i += pageSize) {
+      yield refs.slice(i, i + pageSize).map(({ string, tags, custom }) => ({ string, tags, custom }));
+    }
+  }
+}
@@ -0,0 +1,237 @@
+import Markov, { MarkovGenerateOptions } from 'markov-strings-db';
+import { MarkovFragment } from 'markov-strings-db/dist/src/entity/MarkovFragment';
+import { MarkovInputData } from 'markov-strings-db/dist/src/entity/MarkovInputData';
+import { SelectQueryBuilder } from 'typeorm';
+import { config } from '../config';
+import type { CorpusBackendName } from '../entity/GuildSettings';
+import L from '../logger';
+import { extractKeywords } from '../reply-context';
+import { MarkovDataCustom } from '../types';
+import type { TrainingMessage } from '../workers/markov-worker';
+import {
+  CorpusBackend,
+  CorpusGenerateOptions,
+  CorpusGeneration,
+  CorpusStats,
+  measureGeneration,
+  measureTraining,
+  passesQualityFilter,
+} from './backend';
+
+/**
+ * Reads the provenance tags of a stored input, which must be loaded with its `tags` relation,
+ * falling back to the guild ID when the input has none so the data can still be removed with the
+ * rest of the guild's corpus
+ * @throws If the tags weren't loaded, instead of silently dropping them
+ */
+function getInputTags(input: MarkovInputData, guildId: string): string[] {
+  const { tags } = input as unknown as { tags?: Array<{ tag?: unknown }> };
+  if (!Array.isArray(tags)) throw new Error(`The tags of input ${input.id} were not loaded`);
+  return tags.length
+    ? tags.map(({ tag }) => {
+        if (typeof tag !== 'string') throw new Error(`Input ${input.id} has a malformed tag`);
+        return tag;
+      })
+    : [guildId];
+}
+
+/**
+ * A chain markov-strings-db learned, read from its corpus and fragment tables. Its corpus pairs
+ * each block of `stateSize` words with the next whole block, rather than the next word.
+ */
+export interface CorpusChain {
+  /** A block that opened or ended a sentence, or one followed by `next` */
+  kind: 'start' | 'end' | 'link';
+  words: string;
+  next?: string;
+}
+
+/**
+ * A guild's corpus kept in the SQLite database by markov-strings-db
+ */
+export class MarkovStringsDbBackend implements CorpusBackend {
+  readonly name: CorpusBackendName = 'markov-strings-db';
+  readonly guildId: string;
+  private readonly markov: Markov;
+
+  constructor(guildId: string, markov: Markov) {
+    this.guildId = guildId;
+    this.markov = markov;
+  }
+
+  /**
+   * Connect to a guild's corpus in the database, creating it if needed
+   */
+  static async create(guildId: string, stateSize = config.stateSize): Promise<MarkovStringsDbBackend> {
+    const markov = new Markov({ id: guildId, options: { stateSize, id: guildId } });
+    L.trace({ guildId }, 'Setting up markov instance');
+    await markov.setup(); // Connect the markov instance to the DB to assign it an ID
+    return new MarkovStringsDbBackend(guildId, markov);
+  }
+
+  private inputQuery() {
+    return MarkovInputData.createQueryBuilder<MarkovInputData<MarkovDataCustom>>('input')
+      .leftJoin('input.markov', 'markov')
+      .where({ markov: this.markov.db });
+  }
+
+  /**
+   * Inputs with their tags, so they can be copied with them
+   */
+  private taggedInputQuery() {
+    return this.inputQuery().leftJoinAndSelect('input.tags', 'tag');
+  }
+
+  add(messages: TrainingMessage[]): Promise<void> {
+    return measureTraining(this.name, messages, async () => {
+      await this.markov.addData(messages);
+    });
+  }
+
+  async removeTags(tags: string[]): Promise<void> {
+    await this.markov.removeTags(tags);
+  }
+
+  private generateOptions(
+    options: CorpusGenerateOptions,
+    keywords: string[],
+  ): MarkovGenerateOptions<MarkovDataCustom> {
+    return {
+      filter: (result): boolean => passesQualityFilter(result, options.minScore ?? 0, keywords),
+      maxTries: options.maxTries,
+      startSeed: options.seed,
+    };
+  }
+
+  generate(options: CorpusGenerateOptions = {}): Promise<CorpusGeneration> {
+    return measureGeneration(this.name, () => this.generateSentence(options));
+  }
+
+  private async generateSentence(options: CorpusGenerateOptions): Promise<CorpusGeneration> {
+    const keywords = options.replyTo ? extractKeywords(options.replyTo) : [];
+    const result = await this.markov
+      .generate<MarkovDataCustom>(this.generateOptions(options, keywords))
+      .catch((err: unknown) => {
+        if (keywords.length === 0) throw err;
+        L.debug({ err, keywords }, 'No response with a keyword, generating without one');
+        return this.markov.generate<MarkovDataCustom>(this.generateOptions(options, []));
+      });
+    return {
+      string: result.string,
+      score: result.score,
+      refs: result.refs.map((ref: MarkovInputData<MarkovDataCustom>) => ({
+        string: ref.string,
+        // markov-strings-db doesn't always load the tags of the inputs a sentence came from
+        tags: 'tags' in ref ? getInputTags(ref, this.guildId) : [this.guildId],
+        custom: ref.custom ?? undefined,
+      })),
+      tries: result.tries,
+      keywords,
+    };
+  }
+
+  async getRandomInput(): Promise<TrainingMessage | null> {
+    // Efficient random selection - avoid expensive ORDER BY RANDOM()
+    const totalCount = await this.inputQuery().getCount();
+    if (totalCount === 0) return null;
+
+    const randomOffset = Math.floor(Math.random() * totalCount);
+    const input = await this.taggedInputQuery()
+      .orderBy('input.id', 'ASC')
+      .skip(randomOffset)
+      .take(1)
+      .getOne();
+    if (!input) return null;
+    return {
+      string: input.string,
+      tags: getInputTags(input, this.guildId),
+      custom: input.custom ?? undefined,
+    };
+  }
+
+  async getStats(): Promise<CorpusStats> {
+    return { backend: this.name, inputCount: await this.inputQuery().getCount() };
+  }
+
+  /**
+   * Page through the chains markov-strings-db learned from this corpus, read straight from its
+   * fragment and corpus tables rather than rebuilt from the inputs, e.g. to check a store
+   * built from `export` against them
+   */
+  async *exportChains(pageSize = config.batchSize): AsyncGenerator<CorpusChain[]> {
+    const fragments = () =>
+      MarkovFragment.createQueryBuilder('fragment').select([
+        'fragment.id AS id',
+        'fragment.words AS words',
+      ]);
+    yield* this.pageFragments(
+      () => fragments().where({ startWordMarkov: this.markov.db }),
+      (row) => ({ kind: 'start', words: row.words }),
+      pageSize,
+    );
+    yield* this.pageFragments(
+      () => fragments().where({ endWordMarkov: this.markov.db }),
+      (row) => ({ kind: 'end', words: row.words }),
+      pageSize,
+    );
+    yield* this.pageFragments(
+      () =>
+        fragments()
+          .addSelect('entry.block AS block')
+          .innerJoin('fragment.corpusEntry', 'entry')
+          .where('entry.markov = :markovId', { markovId: this.markov.db.id }),
+      (row) => ({ kind: 'link', words: row.block!, next: row.words }),
+      pageSize,
+    );
+  }
+
+  private async *pageFragments(
+    query: () => SelectQueryBuilder<MarkovFragment>,
+    toChain: (row: { words: string; block?: string }) => CorpusChain,
+    pageSize: number,
+  ): AsyncGenerator<CorpusChain[]> {
+    let lastId = 0;
+    let keepGoing = true;
+    while (keepGoing) {
+      // eslint-disable-next-line no-await-in-loop
+      const rows: Array<{ id: number; words: string; block?: string }> = await query()
+        .andWhere('fragment.id > :lastId', { lastId })
+        .orderBy('fragment.id', 'ASC')
+        .limit(pageSize)
+        .getRawMany();
+      if (rows.length > 0) {
+        yield rows.map(toChain);
+        lastId = rows[rows.length - 1].id;
+      }
+      keepGoing = rows.length === pageSize;
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.markov.delete();
+  }
+
+  async *export(pageSize = config.batchSize): AsyncGenerator<TrainingMessage[]> {
+    let lastId = 0;
+    let keepGoing = true;
+    while (keepGoing) {
+      // Keyset pagination stays fast on large tables where OFFSET would not. `take` rather than
+      // `limit` counts inputs, not the rows joined with their tags.
+      // eslint-disable-next-line no-await-in-loop
+      const page = await this.taggedInputQuery()
+        .andWhere('input.id > :lastId', { lastId })
+        .orderBy('input.id', 'ASC')
+        .take(pageSize)
+        .getMany();
+      if (page.length > 0) {
+        yield page.map((input: MarkovInputData<MarkovDataCustom>) => ({
+          string: input.string,
+          tags: getInputTags(input, this.guildId),
+          custom: input.custom ?? undefined,
+        }));
+        lastId = page[page.length - 1].id;
+      }
+      keepGoing = page.length === pageSize;
+    }
+  }
+}
@@ -0,0 +1,106 @@
+import type { CorpusBackendName } from '../entity/GuildSettings';
+import L from '../logger';
+import type { TrainingMessage } from '../workers/markov-worker';
+import type {
+  CorpusBackend,
+  CorpusGenerateOptions,
+  CorpusGeneration,
+  CorpusStats,
+} from './backend';
+
+/**
+ * A change to a guild's corpus held back while its writes are paused
+ */
+export type CorpusWrite =
+  { type: 'add'; messages: TrainingMessage[] } | { type: 'removeTags'; tags: string[] };
+
+/**
+ * Writes held back for each guild whose writes are paused, oldest first
+ */
+const pausedWrites = new Map<string, CorpusWrite[]>();
+
+/**
+ * Hold back learning and forgetting in a guild, e.g. while its corpus is copied to another
+ * backend, so the copy can't miss them
+ * @throws If the guild's writes are already paused
+ */
+export function pauseWrites(guildId: string): void {
+  if (pausedWrites.has(guildId)) throw new Error(`Writes are already paused in guild ${guildId}`);
+  pausedWrites.set(guildId, []);
+}
+
+/**
+ * Let a guild's backend be written to again
+ * @returns The writes held back while paused, to apply with `applyWrites`
+ */
+export function resumeWrites(guildId: string): CorpusWrite[] {
+  const writes = pausedWrites.get(guildId) ?? [];
+  pausedWrites.delete(guildId);
+  return writes;
+}
+
+export function getPausedWrites(guildId: string): CorpusWrite[] | undefined {
+  return pausedWrites.get(guildId);
+}
+
+/**
+ * Apply held back writes to a backend in the order they were made
+ */
+export async function applyWrites(backend: CorpusBackend, writes: CorpusWrite[]): Promise<void> {
+  for (const write of writes) {
+    if (write.type === 'add') {
+      // eslint-disable-next-line no-await-in-loop
+      await backend.add(write.messages);
+    } else {
+      // eslint-disable-next-line no-await-in-loop
+      await backend.removeTags(write.tags);
+    }
+  }
+  L.debug({ guildId: backend.guildId, writes: writes.length }, 'Applied held back writes');
+}
+
+/**
+ * Generates from a guild's backend as usual, but holds back its writes until they're resumed.
+ * Clearing would discard writes in the wrong order, so it's refused.
+ */
+export class PausedCorpusBackend implements CorpusBackend {
+  readonly name: CorpusBackendName;
+  readonly guildId: string;
+  private readonly backend: CorpusBackend;
+  private readonly writes: CorpusWrite[];
+
+  constructor(backend: CorpusBackend, writes: CorpusWrite[]) {
+    this.name = backend.name;
+    this.guildId = backend.guildId;
+    this.backend = backend;
+    this.writes = writes;
+  }
+
+  async add(messages: TrainingMessage[]): Promise<void> {
+    this.writes.push({ type: 'add', messages });
+  }
+
+  async removeTags(tags: string[]): Promise<void> {
+    this.writes.push({ type: 'removeTags', tags });
+  }
+
+  generate(options?: CorpusGenerateOptions): Promise<CorpusGeneration> {
+    return this.backend.generate(options);
+  }
+
+  getRandomInput(): Promise<TrainingMessage | null> {
+    return this.backend.getRandomInput();
+  }
+
+  getStats(): Promise<CorpusStats> {
+    return this.backend.getStats();
+  }
+
+  async clear(): Promise<void> {
+    throw new Error('This server is switching backends. Try again once it finishes.');
+  }
+
+  export(pageSize?: number): AsyncGenerator<TrainingMessage[]> {
+    return this.backend.export(pageSize);
+  }
+}
@@ -0,0 +1,137 @@
+import { performance } from 'perf_hooks';
+import type { CorpusBackendName } from '../entity/GuildSettings';
+import type { ShadowOperation } from '../entity/ShadowStats';
+import L from '../logger';
+import { recordShadowSample, shouldSampleShadow } from '../shadow';
+import type { TrainingMessage } from '../workers/markov-worker';
+import type {
+  CorpusBackend,
+  CorpusGenerateOptions,
+  CorpusGeneration,
+  CorpusStats,
+} from './backend';
+
+type Outcome<T> = { failed: false; result: T } | { failed: true; error: unknown };
+
+/**
+ * Serves a guild from one backend while keeping another in step with it, to compare them before
+ * switching. Learning and forgetting go to both. For a sample of requests, both generate too, and
+ * both are timed and measured. Only the serving backend's results and errors are returned.
+ */
+export class ShadowCorpusBackend implements CorpusBackend {
+  readonly name: CorpusBackendName;
+  readonly guildId: string;
+  private readonly serving: CorpusBackend;
+  private readonly shadow: CorpusBackend;
+
+  constructor(serving: CorpusBackend, shadow: CorpusBackend) {
+    this.name = serving.name;
+    this.guildId = serving.guildId;
+    this.serving = serving;
+    this.shadow = shadow;
+  }
+
+  /**
+   * Run a request on one backend, recording a sample of it if `sampled`
+   */
+  private async measure<T>(
+    backend: CorpusBackend,
+    operation: ShadowOperation,
+    sampled: boolean,
+    run: () => Promise<T>,
+    size: (result: T) => { length: number; score?: number },
+  ): Promise<Outcome<T>> {
+    const start = performance.now();
+    let outcome: Outcome<T>;
+    try {
+      outcome = { failed: false, result: await run() };
+    } catch (error) {
+      outcome = { failed: true, error };
+    }
+    if (sampled) {
+      recordShadowSample({
+        guildId: this.guildId,
+        backend: backend.name,
+        operation,
+        latencyMs: performance.now() - start,
+        failed: outcome.failed,
+        ...(outcome.failed ? {} : size(outcome.result)),
+      }).catch((err) => L.error({ err, guildId: this.guildId }, 'Failed to record shadow sample'));
+    }
+    return outcome;
+  }
+
+  /**
+   * Apply a change to both backends. The shadow backend's failures are only logged.
+   */
+  private async mirror(
+    operation: string,
+    run: (backend: CorpusBackend) => Promise<void>,
+  ): Promise<void> {
+    const [serving, shadow] = await Promise.allSettled([run(this.serving), run(this.shadow)]);
+    if (shadow.status === 'rejected') {
+      L.warn(
+        { err: shadow.reason, guildId: this.guildId, backend: this.shadow.name, operation },
+        'Shadow backend failed',
+      );
+    }
+    if (serving.status === 'rejected') throw serving.reason;
+  }
+
+  async add(messages: TrainingMessage[]): Promise<void> {
+    const sampled = shouldSampleShadow();
+    const size = () => ({ length: messages.length });
+    const [serving, shadow] = await Promise.all([
+      this.measure(this.serving, 'add', sampled, () => this.serving.add(messages), size),
+      this.measure(this.shadow, 'add', sampled, () => this.shadow.add(messages), size),
+    ]);
+    if (shadow.failed) {
+      L.warn(
+        { err: shadow.error, guildId: this.guildId, backend: this.shadow.name },
+        'Shadow backend failed to learn messages',
+      );
+    }
+    if (serving.failed) throw serving.error;
+  }
+
+  async removeTags(tags: string[]): Promise<void> {
+    await this.mirror('removeTags', (backend) => backend.removeTags(tags));
+  }
+
+  async generate(options: CorpusGenerateOptions = {}): Promise<CorpusGeneration> {
+    if (!shouldSampleShadow()) return this.serving.generate(options);
+
+    const size = (generation: CorpusGeneration) => ({
+      length: generation.string.split(/\s+/).filter(Boolean).length,
+      score: generation.score,
+    });
+    const [serving, shadow] = await Promise.all([
+      this.measure(this.serving, 'generate', true, () => this.serving.generate(options), size),
+      this.measure(this.shadow, 'generate', true, () => this.shadow.generate(options), size),
+    ]);
+    if (shadow.failed) {
+      L.debug(
+        { err: shadow.error, guildId: this.guildId, backend: this.shadow.name },
+        'Shadow backend failed to generate',
+      );
+    }
+    if (serving.failed) throw serving.error;
+    return serving.result;
+  }
+
+  getRandomInput(): Promise<TrainingMessage | null> {
+    return this.serving.getRandomInput();
+  }
+
+  getStats(): Promise<CorpusStats> {
+    return this.serving.getStats();
+  }
+
+  async clear(): Promise<void> {
+    await this.mirror('clear', (backend) => backend.clear());
+  }
+
+  export(pageSize?: number): AsyncGenerator<TrainingMessage[]> {
+    return this.serving.export(pageSize);
+  }
+}
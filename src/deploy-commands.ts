@@ -34,6 +34,31 @@ export const messageCommand = new SlashCommandBuilder()
         `A ${config.stateSize}-word phrase to attempt to start a generated sentence with.`,
       )
       .setRequired(false),
+  )
+  .addNumberOption((temperature) =>
+    temperature
+      .setName('temperature')
+      .setDescription('Below 1 sticks to common word choices, above 1 picks rare ones more often.')
+      .setMinValue(0.1)
+      .setMaxValue(5)
+      .setRequired(false),
+  )
+  .addIntegerOption((topK) =>
+    topK
+      .setName('top-k')
+      .setDescription('Only pick from this many of the most common next words. 0 allows all.')
+      .setMinValue(0)
+      .setRequired(false),
+  )
+  .addNumberOption((topP) =>
+    topP
+      .setName('top-p')
+      .setDescription(
+        'Only pick from the most common next words making up this share. 1 allows all.',
+      )
+      .setMinValue(0.01)
+      .setMaxValue(1)
+      .setRequired(false),
   );
 
 /**
@@ -46,6 +71,16 @@ const channelOptionsGenerator = (builder: SlashCommandChannelOption, index: numb
     .setRequired(index === 0)
     .addChannelTypes(ChannelType.GuildText);
 
+/**
+ * The channel an `/autorespond configure` subcommand applies to
+ */
+const autoRespondChannelOption = (builder: SlashCommandChannelOption) =>
+  builder
+    .setName('channel')
+    .setDescription('An auto-respond text channel')
+    .setRequired(true)
+    .addChannelTypes(ChannelType.GuildText);
+
 export const autoRespondCommand = new SlashCommandBuilder()
   .setName('autorespond')
   .setDescription('Configure channels where the bot will automatically respond to all messages')
@@ -76,6 +111,74 @@ export const autoRespondCommand = new SlashCommandBuilder()
     sub
       .setName('modify')
       .setDescription('Add or remove auto-respond channels via select menu UI (first 25 text channels only)'),
+  )
+  .addSubcommandGroup((group) =>
+    group
+      .setName('configure')
+      .setDescription('Limit how often the bot auto-responds in a channel')
+      .addSubcommand((sub) =>
+        sub
+          .setName('probability')
+          .setDescription('Set the chance of responding to each message')
+          .addChannelOption((opt) => autoRespondChannelOption(opt))
+          .addIntegerOption((opt) =>
+            opt
+              .setName('percent')
+              .setDescription('Chance of responding to each message, in percent')
+              .setMinValue(0)
+              .setMaxValue(100)
+              .setRequired(true),
+          ),
+      )
+      .addSubcommand((sub) =>
+        sub
+          .setName('cooldown')
+          .setDescription('Set the minimum time between responses')
+          .addChannelOption((opt) => autoRespondChannelOption(opt))
+          .addIntegerOption((opt) =>
+            opt
+              .setName('seconds')
+              .setDescription('Seconds to wait after a response. 0 turns the cooldown off.')
+              .setMinValue(0)
+              .setMaxValue(86400)
+              .setRequired(true),
+          ),
+      )
+      .addSubcommand((sub) =>
+        sub
+          .setName('user-limit')
+          .setDescription('Set the most responses to one member per hour')
+          .addChannelOption((opt) => autoRespondChannelOption(opt))
+          .addIntegerOption((opt) =>
+            opt
+              .setName('replies')
+              .setDescription('Responses per member per hour. 0 removes the limit.')
+              .setMinValue(0)
+              .setRequired(true),
+          ),
+      )
+      .addSubcommand((sub) =>
+        sub
+          .setName('quiet-hours')
+          .setDescription(`Pause responses during these hours (${config.timezone})`)
+          .addChannelOption((opt) => autoRespondChannelOption(opt))
+          .addIntegerOption((opt) =>
+            opt
+              .setName('start')
+              .setDescription('Hour of the day responses pause, 0-23. Omit both hours to turn off.')
+              .setMinValue(0)
+              .setMaxValue(23)
+              .setRequired(false),
+          )
+          .addIntegerOption((opt) =>
+            opt
+              .setName('end')
+              .setDescription('Hour of the day responses resume, 0-23')
+              .setMinValue(0)
+              .setMaxValue(23)
+              .setRequired(false),
+          ),
+      ),
   );
 
 export const listenChannelCommand = new SlashCommandBuilder()
@@ -134,13 +237,269 @@ export const trainCommand = new SlashCommandBuilder()
       .setRequired(false),
   );
 
+export const USER_ROLE_OPTIONS_MAX = 10;
+
+/**
+ * Longest inactivity wait for chatter, a week
+ */
+export const CHATTER_IDLE_MAX_MINUTES = 10080;
+
+export const settingsCommand = new SlashCommandBuilder()
+  .setName('settings')
+  .setDescription('View or change how the bot generates messages in this server.')
+  .addSubcommand((sub) =>
+    sub
+      .setName('view')
+      .setDescription('Show the current settings for this server and which ones are overridden.'),
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName('set')
+      .setDescription('Override generation settings for this server.')
+      .addIntegerOption((opt) =>
+        opt
+          .setName('state-size')
+          .setDescription('Number of words in each link of a sentence. Requires a re-train.')
+          .setMinValue(1)
+          .setMaxValue(4)
+          .setRequired(false),
+      )
+      .addIntegerOption((opt) =>
+        opt
+          .setName('max-tries')
+          .setDescription('Number of attempts the sentence generator makes before giving up.')
+          .setMinValue(1)
+          .setRequired(false),
+      )
+      .addIntegerOption((opt) =>
+        opt
+          .setName('min-score')
+          .setDescription('The minimum score required when generating a sentence.')
+          .setMinValue(0)
+          .setRequired(false),
+      )
+      .addNumberOption((opt) =>
+        opt
+          .setName('temperature')
+          .setDescription(
+            'Below 1 sticks to common word choices, above 1 picks rare ones more often.',
+          )
+          .setMinValue(0.1)
+          .setMaxValue(5)
+          .setRequired(false),
+      )
+      .addIntegerOption((opt) =>
+        opt
+          .setName('top-k')
+          .setDescription('Only pick from this many of the most common next words. 0 allows all.')
+          .setMinValue(0)
+          .setRequired(false),
+      )
+      .addNumberOption((opt) =>
+        opt
+          .setName('top-p')
+          .setDescription(
+            'Only pick from the most common next words making up this share. 1 allows all.',
+          )
+          .setMinValue(0.01)
+          .setMaxValue(1)
+          .setRequired(false),
+      ),
+  )
+  .addSubcommand((sub) => {
+    sub
+      .setName('response-channels')
+      .setDescription('Limit the channels where the bot responds to mentions.');
+    Array.from(Array(CHANNEL_OPTIONS_MAX).keys()).forEach((index) =>
+      sub.addChannelOption((opt) => channelOptionsGenerator(opt, index)),
+    );
+    return sub;
+  })
+  .addSubcommand((sub) => {
+    sub
+      .setName('user-roles')
+      .setDescription('Only allow members with one of these roles to generate messages.');
+    Array.from(Array(USER_ROLE_OPTIONS_MAX).keys()).forEach((index) =>
+      sub.addRoleOption((opt) =>
+        opt
+          .setName(`role-${index + 1}`)
+          .setDescription('A role')
+          .setRequired(index === 0),
+      ),
+    );
+    return sub;
+  })
+  .addSubcommand((sub) =>
+    sub
+      .setName('reset')
+      .setDescription('Reset settings back to the bot-wide defaults.')
+      .addStringOption((opt) =>
+        opt
+          .setName('setting')
+          .setDescription('The setting to reset. Resets all settings if omitted.')
+          .setRequired(false)
+          .addChoices(
+            { name: 'state-size', value: 'stateSize' },
+            { name: 'max-tries', value: 'maxTries' },
+            { name: 'min-score', value: 'minScore' },
+            { name: 'temperature', value: 'temperature' },
+            { name: 'top-k', value: 'topK' },
+            { name: 'top-p', value: 'topP' },
+            { name: 'response-channels', value: 'responseChannelIds' },
+            { name: 'user-roles', value: 'userRoleIds' },
+          ),
+      ),
+  );
+
+export const storeCommand = new SlashCommandBuilder()
+  .setName('store')
+  .setDescription('Manage the optimized MarkovStore for this server.')
+  .addSubcommand((sub) =>
+    sub
+      .setName('migrate')
+      .setDescription('Copy the learned messages into the optimized store (bot owners only).'),
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName('shadow-report')
+      .setDescription('Compare the two backends over the requests sampled in shadow mode.')
+      .addBooleanOption((opt) =>
+        opt
+          .setName('reset')
+          .setDescription('Start a fresh comparison after this report. Default: false')
+          .setRequired(false),
+      ),
+  );
+
+export const backendCommand = new SlashCommandBuilder()
+  .setName('backend')
+  .setDescription('Move this server between corpus backends (bot owners only).')
+  .addSubcommand((sub) =>
+    sub
+      .setName('switch')
+      .setDescription('Copy the learned messages into another backend and switch once verified.')
+      .addStringOption((opt) =>
+        opt
+          .setName('backend')
+          .setDescription('The backend to switch to')
+          .setRequired(true)
+          .addChoices(
+            { name: 'markov-strings-db', value: 'markov-strings-db' },
+            { name: 'markov-store', value: 'markov-store' },
+          ),
+      ),
+  )
+  .addSubcommand((sub) =>
+    sub.setName('status').setDescription('Show the backend this server uses and any switch.'),
+  );
+
+export const metricsCommand = new SlashCommandBuilder()
+  .setName('metrics')
+  .setDescription("Summarize the bot's performance metrics (bot owners only).");
+
+export const chatterCommand = new SlashCommandBuilder()
+  .setName('chatter')
+  .setDescription('Let the bot post unprompted messages in channels it listens to.')
+  .addSubcommand((sub) =>
+    sub
+      .setName('enable')
+      .setDescription('Post after a number of messages or a random period of inactivity.')
+      .addChannelOption((opt) =>
+        opt
+          .setName('channel')
+          .setDescription('A text channel the bot listens to')
+          .setRequired(true)
+          .addChannelTypes(ChannelType.GuildText),
+      )
+      .addIntegerOption((opt) =>
+        opt
+          .setName('messages')
+          .setDescription(
+            'Post after this many messages since its last post or restart. 0 turns this off.',
+          )
+          .setMinValue(0)
+          .setMaxValue(10000)
+          .setRequired(false),
+      )
+      .addIntegerOption((opt) =>
+        opt
+          .setName('idle-min')
+          .setDescription('Shortest wait in minutes after the last message before posting.')
+          .setMinValue(1)
+          .setMaxValue(CHATTER_IDLE_MAX_MINUTES)
+          .setRequired(false),
+      )
+      .addIntegerOption((opt) =>
+        opt
+          .setName('idle-max')
+          .setDescription('Longest wait in minutes after the last message before posting.')
+          .setMinValue(1)
+          .setMaxValue(CHATTER_IDLE_MAX_MINUTES)
+          .setRequired(false),
+      ),
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName('disable')
+      .setDescription('Stop posting unprompted messages in a channel.')
+      .addChannelOption((opt) =>
+        opt
+          .setName('channel')
+          .setDescription('A text channel')
+          .setRequired(true)
+          .addChannelTypes(ChannelType.GuildText),
+      ),
+  )
+  .addSubcommand((sub) =>
+    sub.setName('list').setDescription('List the channels where the bot chatters.'),
+  );
+
+export const forgetCommand = new SlashCommandBuilder()
+  .setName('forget')
+  .setDescription('Remove everything the bot has learned from a member.')
+  .addSubcommand((sub) =>
+    sub.setName('me').setDescription('Remove everything the bot has learned from you.'),
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName('user')
+      .setDescription('Remove everything the bot has learned from a member (moderators only).')
+      .addUserOption((opt) =>
+        opt.setName('user').setDescription('The member to forget').setRequired(true),
+      ),
+  );
+
+export const privacyCommand = new SlashCommandBuilder()
+  .setName('privacy')
+  .setDescription('Control whether the bot learns from your messages.')
+  .addSubcommand((sub) =>
+    sub
+      .setName('optout')
+      .setDescription('Stop the bot from learning from your messages in this server.'),
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName('optin')
+      .setDescription('Allow the bot to learn from your messages in this server again.'),
+  )
+  .addSubcommand((sub) =>
+    sub.setName('list').setDescription('List the members who have opted out (moderators only).'),
+  );
+
 const commands = [
   helpCommand.toJSON(),
   inviteCommand.toJSON(),
   messageCommand.toJSON(),
   listenChannelCommand.toJSON(),
   autoRespondCommand.toJSON(),
-  trainCommand.toJSON()
+  trainCommand.toJSON(),
+  settingsCommand.toJSON(),
+  storeCommand.toJSON(),
+  backendCommand.toJSON(),
+  metricsCommand.toJSON(),
+  chatterCommand.toJSON(),
+  forgetCommand.toJSON(),
+  privacyCommand.toJSON(),
 ];
 
 export async function deployCommands(clientId: string) {
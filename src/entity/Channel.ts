@@ -17,6 +17,46 @@ export class Channel extends BaseEntity {
   })
   autoRespond: boolean;
 
+  /** Chance of auto-responding to each message, from 0 to 1 */
+  @Column({ type: 'real', default: 1 })
+  autoRespondProbability: number;
+
+  /** Minimum seconds between auto-responses */
+  @Column({ type: 'integer', default: 0 })
+  autoRespondCooldown: number;
+
+  /** Most auto-responses to one member per hour. 0 means no limit. */
+  @Column({ type: 'integer', default: 0 })
+  autoRespondUserHourlyLimit: number;
+
+  /** Hour of the day, in the configured timezone, when auto-responding pauses */
+  @Column({ type: 'integer', nullable: true })
+  quietHoursStart: number | null;
+
+  /** Hour of the day, in the configured timezone, when auto-responding resumes */
+  @Column({ type: 'integer', nullable: true })
+  quietHoursEnd: number | null;
+
+  /** Whether the bot posts unprompted messages in this channel while listening to it */
+  @Column({ default: false })
+  chatter: boolean;
+
+  /** Post after this many messages. 0 turns this trigger off. */
+  @Column({ type: 'integer', default: 0 })
+  chatterMessageInterval: number;
+
+  /** Shortest random wait after the last message before posting, in minutes */
+  @Column({ type: 'integer', default: 0 })
+  chatterIdleMinMinutes: number;
+
+  /** Longest random wait after the last message before posting, in minutes. 0 turns it off. */
+  @Column({ type: 'integer', default: 0 })
+  chatterIdleMaxMinutes: number;
+
+  /** When the pending inactivity post is due, kept so it survives restarts */
+  @Column({ type: 'datetime', nullable: true })
+  chatterDueAt: Date | null;
+
   @ManyToOne(() => Guild, (guild) => guild.channels)
   guild: Guild;
 }
@@ -0,0 +1,47 @@
+import { PrimaryColumn, Entity, BaseEntity, Column } from 'typeorm';
+
+/**
+ * The corpus storage a guild learns into and generates from
+ */
+export type CorpusBackendName = 'markov-strings-db' | 'markov-store';
+
+/**
+ * Per-guild overrides for the generation and training knobs in `AppConfig`.
+ * A `null` column means the guild uses the global config value.
+ */
+@Entity()
+export class GuildSettings extends BaseEntity {
+  /** The guild ID these settings belong to */
+  @PrimaryColumn({ type: 'text' })
+  id: string;
+
+  @Column({ type: 'integer', nullable: true })
+  stateSize: number | null;
+
+  @Column({ type: 'integer', nullable: true })
+  maxTries: number | null;
+
+  @Column({ type: 'integer', nullable: true })
+  minScore: number | null;
+
+  @Column({ type: 'real', nullable: true })
+  temperature: number | null;
+
+  @Column({ type: 'integer', nullable: true })
+  topK: number | null;
+
+  @Column({ type: 'real', nullable: true })
+  topP: number | null;
+
+  @Column({ type: 'simple-array', nullable: true })
+  responseChannelIds: string[] | null;
+
+  @Column({ type: 'simple-array', nullable: true })
+  userRoleIds: string[] | null;
+
+  /**
+   * The backend this guild has been switched to. Takes precedence over the rollout config.
+   */
+  @Column({ type: 'text', nullable: true })
+  backend: CorpusBackendName | null;
+}
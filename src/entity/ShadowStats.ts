@@ -0,0 +1,47 @@
+import { PrimaryColumn, Entity, BaseEntity, Column, CreateDateColumn } from 'typeorm';
+import type { CorpusBackendName } from './GuildSettings';
+
+/**
+ * The corpus requests compared in shadow mode
+ */
+export type ShadowOperation = 'generate' | 'add';
+
+/**
+ * Running totals of one backend's shadow-mode samples of an operation in a guild
+ */
+@Entity()
+export class ShadowStats extends BaseEntity {
+  @PrimaryColumn({ type: 'text' })
+  guildId: string;
+
+  @PrimaryColumn({ type: 'text' })
+  backend: CorpusBackendName;
+
+  @PrimaryColumn({ type: 'text' })
+  operation: ShadowOperation;
+
+  /** Sampled requests, including failed ones */
+  @Column({ type: 'integer', default: 0 })
+  samples: number;
+
+  @Column({ type: 'integer', default: 0 })
+  failures: number;
+
+  /** Summed over all samples */
+  @Column({ type: 'real', default: 0 })
+  totalLatencyMs: number;
+
+  @Column({ type: 'real', default: 0 })
+  maxLatencyMs: number;
+
+  /** Words generated or messages learned, summed over successful samples */
+  @Column({ type: 'integer', default: 0 })
+  totalLength: number;
+
+  /** Generation scores summed over successful samples */
+  @Column({ type: 'real', default: 0 })
+  totalScore: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,16 @@
+import { PrimaryColumn, Entity, BaseEntity, CreateDateColumn } from 'typeorm';
+
+/**
+ * A member who asked the bot to never learn from their messages in a guild
+ */
+@Entity()
+export class UserOptOut extends BaseEntity {
+  @PrimaryColumn({ type: 'text' })
+  guildId: string;
+
+  @PrimaryColumn({ type: 'text' })
+  userId: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,23 @@
+import { getCorpusBackend, getEnabledBackendNames, getPausedWrites } from './corpus';
+import L from './logger';
+
+/**
+ * Removes everything a user contributed to a guild's corpus.
+ *
+ * Data is removed from every enabled backend, since a guild may have learned into several over
+ * time. Only data tagged with its author can be found, which excludes messages learned before
+ * author IDs were recorded and JSON imports without author IDs.
+ */
+export async function forgetUserData(guildId: string, userId: string): Promise<void> {
+  L.info({ guildId, userId }, 'Removing all data learned from user');
+  const backends = getEnabledBackendNames();
+  for (const name of backends) {
+    // eslint-disable-next-line no-await-in-loop
+    const backend = await getCorpusBackend(guildId, name);
+    // eslint-disable-next-line no-await-in-loop
+    await backend.removeTags([userId]);
+  }
+  // A backend switch may still copy the user's messages, so remove them again once it's done
+  getPausedWrites(guildId)?.push({ type: 'removeTags', tags: [userId] });
+  L.debug({ guildId, userId, backends }, 'Removed user data');
+}
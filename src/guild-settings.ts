@@ -0,0 +1,119 @@
+import { CorpusBackendName, GuildSettings } from './entity/GuildSettings';
+import { config } from './config';
+
+/**
+ * The settings that can be overridden per guild with `/settings`
+ */
+export type GuildSettingKey =
+  | 'stateSize'
+  | 'maxTries'
+  | 'minScore'
+  | 'temperature'
+  | 'topK'
+  | 'topP'
+  | 'responseChannelIds'
+  | 'userRoleIds';
+
+export const GUILD_SETTING_KEYS: GuildSettingKey[] = [
+  'stateSize',
+  'maxTries',
+  'minScore',
+  'temperature',
+  'topK',
+  'topP',
+  'responseChannelIds',
+  'userRoleIds',
+];
+
+/**
+ * A guild's effective settings, with the global config filled in for anything not overridden
+ */
+export interface ResolvedGuildSettings {
+  stateSize: number;
+  maxTries: number;
+  minScore: number;
+  temperature: number;
+  topK: number;
+  topP: number;
+  responseChannelIds: string[];
+  userRoleIds: string[];
+}
+
+export type GuildSettingsUpdate = Partial<ResolvedGuildSettings>;
+
+/**
+ * Merges a guild's stored overrides over the global config
+ */
+export function resolveGuildSettings(overrides?: GuildSettings | null): ResolvedGuildSettings {
+  return {
+    stateSize: overrides?.stateSize ?? config.stateSize,
+    maxTries: overrides?.maxTries ?? config.maxTries,
+    minScore: overrides?.minScore ?? config.minScore,
+    temperature: overrides?.temperature ?? config.temperature,
+    topK: overrides?.topK ?? config.topK,
+    topP: overrides?.topP ?? config.topP,
+    responseChannelIds: overrides?.responseChannelIds ?? config.responseChannelIds,
+    userRoleIds: overrides?.userRoleIds ?? config.userRoleIds,
+  };
+}
+
+/**
+ * Gets the effective settings for a guild, falling back to the global config
+ */
+export async function getGuildSettings(guildId: string): Promise<ResolvedGuildSettings> {
+  const overrides = await GuildSettings.findOneBy({ id: guildId });
+  return resolveGuildSettings(overrides);
+}
+
+/**
+ * Stores new overrides for a guild. Keys not present in `update` are left untouched.
+ */
+export async function updateGuildSettings(
+  guildId: string,
+  update: GuildSettingsUpdate,
+): Promise<GuildSettings> {
+  const settings =
+    (await GuildSettings.findOneBy({ id: guildId })) || GuildSettings.create({ id: guildId });
+  GUILD_SETTING_KEYS.forEach((key) => {
+    const value = update[key];
+    if (value !== undefined) (settings[key] as typeof value) = value;
+  });
+  return settings.save();
+}
+
+/**
+ * Removes a guild's overrides so it goes back to using the global config.
+ * @param keys The settings to reset. Resets all settings if omitted.
+ */
+export async function resetGuildSettings(
+  guildId: string,
+  keys: GuildSettingKey[] = GUILD_SETTING_KEYS,
+): Promise<void> {
+  const settings = await GuildSettings.findOneBy({ id: guildId });
+  if (!settings) return;
+  keys.forEach((key) => {
+    settings[key] = null;
+  });
+  await settings.save();
+}
+
+/**
+ * Gets the backend a guild has been explicitly switched to, if any
+ */
+export async function getGuildBackend(guildId: string): Promise<CorpusBackendName | null> {
+  const settings = await GuildSettings.findOneBy({ id: guildId });
+  return settings?.backend ?? null;
+}
+
+/**
+ * Pins a guild to a backend, or clears the pin with `null` so the rollout config applies again
+ */
+export async function setGuildBackend(
+  guildId: string,
+  backend: CorpusBackendName | null,
+): Promise<void> {
+  const settings =
+    (await GuildSettings.findOneBy({ id: guildId })) || GuildSettings.create({ id: guildId });
+  settings.backend = backend;
+  await settings.save();
+}
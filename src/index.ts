@@ -3,15 +3,11 @@ import { CONFIG_DIR } from './config/setup';
 import 'reflect-metadata';
 import * as Discord from 'discord.js';
 
-import Markov, {
-  MarkovGenerateOptions,
-  MarkovConstructorOptions,
-  AddDataProps,
-} from 'markov-strings-db';
-import { getMarkovStore, MarkovStore } from './markov-store';
-import { getWorkerPool } from './workers/worker-pool';
+import Markov, { AddDataProps } from 'markov-strings-db';
+import { flushAllStores, SamplingOptions, withMarkovStore } from './markov-store';
+import { getWorkerPool, shutdownWorkerPool } from './workers/worker-pool';
+import { getCorpusBackend, resolveBackendName } from './corpus';
 import { DataSource } from 'typeorm';
-import { MarkovInputData } from 'markov-strings-db/dist/src/entity/MarkovInputData';
 import type { PackageJsonPerson } from 'types-package-json';
 import makeEta from 'simple-eta';
 import { formatDistanceToNow } from 'date-fns/formatDistanceToNow';
@@ -20,6 +16,15 @@ import L from './logger';
 import { Channel } from './entity/Channel';
 import { Guild } from './entity/Guild';
 import { config } from './config';
+import {
+  GuildSettingKey,
+  getGuildBackend,
+  getGuildSettings,
+  resetGuildSettings,
+  resolveGuildSettings,
+  updateGuildSettings,
+} from './guild-settings';
+import { CorpusBackendName, GuildSettings } from './entity/GuildSettings';
 import {
   CHANNEL_OPTIONS_MAX,
   deployCommands,
@@ -29,9 +34,42 @@ import {
   messageCommand,
   trainCommand,
   autoRespondCommand,
+  chatterCommand,
+  settingsCommand,
+  storeCommand,
+  backendCommand,
+  metricsCommand,
+  forgetCommand,
+  privacyCommand,
+  USER_ROLE_OPTIONS_MAX,
 } from './deploy-commands';
 import { getRandomElement, getVersion, packageJson } from './util';
 import ormconfig from './ormconfig';
+import { getBackendSwitch, switchGuildBackend } from './backend-switch';
+import {
+  countDiscordEvent,
+  getMetricsSummary,
+  isMetricsEnabled,
+  startMetricsServer,
+  stopMetricsServer,
+} from './metrics';
+import { forgetUserData } from './forget';
+import {
+  describeShadowSummary,
+  getShadowReport,
+  isShadowModeEnabled,
+  resetShadowStats,
+} from './shadow';
+import { getOptedOutUserIds, isOptedOut, optIn, optOut } from './privacy';
+import { describeAutoRespondLimits, takeAutoResponse } from './auto-respond';
+import {
+  describeChatter,
+  isChatterEnabled,
+  recordChatterActivity,
+  resetChatter,
+  startChatterScheduler,
+  stopChatterScheduler,
+} from './chatter';
 
 // Caching system for performance optimization
 const cdnUrlCache = new Map<string, { url: string; expires: number }>();
@@ -92,19 +130,6 @@ const client = new Discord.Client<true>({
   },
 });
 
-const markovOpts: MarkovConstructorOptions = {
-  stateSize: config.stateSize,
-};
-
-const markovGenerateOptions: MarkovGenerateOptions<MarkovDataCustom> = {
-  filter: (result): boolean => {
-    return (
-      result.score >= config.minScore && !result.refs.some((ref) => ref.string === result.string)
-    );
-  },
-  maxTries: config.maxTries,
-};
-
 async function refreshCdnUrl(url: string): Promise<string> {
   // Check cache first - URLs are typically valid for 24 hours
   const now = Date.now();
@@ -146,130 +171,73 @@ async function refreshCdnUrl(url: string): Promise<string> {
 }
 
 /**
- * Determine if a guild should use optimization features
- * Based on rollout percentage and force-enable lists
+ * Returns a thread channels parent guild channel ID, otherwise it just returns a channel ID
  */
-function shouldUseOptimizations(guildId: string): boolean {
-  // Check force-enable list first
-  if (config.optimizationForceGuildIds.includes(guildId)) {
-    return config.enableMarkovStore;
-  }
-
-  // Check rollout percentage
-  if (config.optimizationRolloutPercentage > 0) {
-    const hash = guildId.split('').reduce((a, b) => {
-      a = ((a << 5) - a) + b.charCodeAt(0);
-      return a & a;
-    }, 0);
-    const percentage = Math.abs(hash) % 100;
-    return percentage < config.optimizationRolloutPercentage && config.enableMarkovStore;
+function getGuildChannelId(channel: Discord.TextBasedChannel): string | null {
+  if (channel.isThread()) {
+    return channel.parentId;
   }
-
-  return false;
+  return channel.id;
 }
 
-/**
- * Convert MarkovStore response to markov-strings-db compatible format
- */
-function adaptMarkovStoreResponse(words: string[], originalMessage?: Discord.Message): any {
-  const responseString = words.join(' ');
-  
-  // Create minimal refs array for compatibility
-  const refs = originalMessage ? [{
-    string: originalMessage.content,
-    refs: [],
-    custom: {
-      attachments: originalMessage.attachments.map(a => a.url),
-      messageId: originalMessage.id,
-      userId: originalMessage.author.id,
-      channelId: originalMessage.channelId
-    }
-  }] : [];
-
-  return {
-    string: responseString,
-    refs: refs,
-    score: words.length // Simple score based on length
-  };
+async function isValidChannel(channel: Discord.TextBasedChannel): Promise<boolean> {
+  const channelId = getGuildChannelId(channel);
+  if (!channelId) return false;
+  const dbChannel = await Channel.findOneBy({ id: channelId });
+  return dbChannel?.listen || false;
 }
 
 /**
- * Extract training data from message for MarkovStore
+ * Gets a channel's auto-respond settings, or those of a thread's parent, if it auto-responds
  */
-function messageToMarkovData(message: Discord.Message): { text: string; custom: any } {
-  const messageData = messageToData(message);
-  return {
-    text: messageData.string,
-    custom: messageData.custom
-  };
+async function getAutoRespondChannel(channel: Discord.TextBasedChannel): Promise<Channel | null> {
+  const channelId = getGuildChannelId(channel);
+  if (!channelId) return null;
+  const dbChannel = await Channel.findOneBy({ id: channelId });
+  return dbChannel?.autoRespond ? dbChannel : null;
 }
 
 /**
- * Add training data to MarkovStore
+ * Checks if a message is in an auto-respond channel and the channel's limits allow a response
  */
-async function addDataToMarkovStore(store: MarkovStore, messageData: ReturnType<typeof messageToData>): Promise<void> {
-  const words = messageData.string.trim().split(/\s+/).filter(word => word.length > 0);
-  
-  // Build chain prefixes (sliding window of stateSize)
-  const stateSize = config.stateSize;
-  for (let i = 0; i < words.length - stateSize; i++) {
-    const prefix = words.slice(i, i + stateSize).join(' ');
-    const suffix = words[i + stateSize];
-    store.addPrefix(prefix, suffix, 1);
-  }
-}
-
-async function getMarkovByGuildId(guildId: string): Promise<Markov> {
-  const markov = new Markov({ id: guildId, options: { ...markovOpts, id: guildId } });
-  L.trace({ guildId }, 'Setting up markov instance');
-  await markov.setup(); // Connect the markov instance to the DB to assign it an ID
-  return markov;
+async function shouldAutoRespond(message: Discord.Message): Promise<boolean> {
+  const dbChannel = await getAutoRespondChannel(message.channel);
+  return dbChannel !== null && takeAutoResponse(dbChannel, message.author.id);
 }
 
 /**
- * Get optimized MarkovStore or fallback to traditional Markov
+ * Gets a channel's chatter settings, or those of a thread's parent, if chatter is turned on
  */
-async function getOptimizedMarkov(guildId: string): Promise<{ store?: MarkovStore; markov?: Markov; useOptimized: boolean }> {
-  const useOptimized = shouldUseOptimizations(guildId);
-  
-  if (useOptimized) {
-    try {
-      const store = await getMarkovStore(guildId);
-      L.debug({ guildId }, 'Using optimized MarkovStore');
-      return { store, useOptimized: true };
-    } catch (err) {
-      L.warn({ err, guildId }, 'Failed to load optimized store, falling back to traditional Markov');
-    }
-  }
-
-  // Fallback to traditional markov-strings-db
-  const markov = await getMarkovByGuildId(guildId);
-  L.debug({ guildId }, 'Using traditional markov-strings-db');
-  return { markov, useOptimized: false };
-}
-
-/**
- * Returns a thread channels parent guild channel ID, otherwise it just returns a channel ID
- */
-function getGuildChannelId(channel: Discord.TextBasedChannel): string | null {
-  if (channel.isThread()) {
-    return channel.parentId;
-  }
-  return channel.id;
-}
-
-async function isValidChannel(channel: Discord.TextBasedChannel): Promise<boolean> {
+async function getChatterChannel(channel: Discord.TextBasedChannel): Promise<Channel | null> {
   const channelId = getGuildChannelId(channel);
-  if (!channelId) return false;
+  if (!channelId) return null;
   const dbChannel = await Channel.findOneBy({ id: channelId });
-  return dbChannel?.listen || false;
+  return dbChannel?.chatter ? dbChannel : null;
 }
 
-async function isAutoRespondChannel(channel: Discord.TextBasedChannel): Promise<boolean> {
-  const channelId = getGuildChannelId(channel);
-  if (!channelId) return false;
+/**
+ * Posts an unprompted message in a chatter channel. The channel's latest message stands in for
+ * the triggering message, so the same user and role checks as a normal response apply.
+ */
+async function postChatter(channelId: string): Promise<void> {
   const dbChannel = await Channel.findOneBy({ id: channelId });
-  return dbChannel?.autoRespond || false;
+  if (!dbChannel || !isChatterEnabled(dbChannel)) return;
+  const channel = await client.channels.fetch(channelId);
+  if (!(channel instanceof Discord.TextChannel) || !client.user) return;
+  if (!channel.permissionsFor(client.user)?.has(Discord.PermissionFlagsBits.SendMessages)) {
+    L.debug({ channelId }, 'Missing permission to post chatter');
+    return;
+  }
+  const lastMessage = (await channel.messages.fetch({ limit: 1 })).first();
+  if (!lastMessage || !isHumanAuthoredMessage(lastMessage)) return;
+
+  L.debug({ channelId }, 'Posting chatter');
+  const generatedResponse = await generateResponse(lastMessage);
+  if (generatedResponse.message) {
+    await channel.send(generatedResponse.message);
+  } else if (generatedResponse.error) {
+    L.warn({ channelId, error: generatedResponse.error.content }, 'Failed to generate chatter');
+  }
 }
 
 async function getAutoRespondChannels(guild: Discord.Guild): Promise<Discord.TextChannel[]> {
@@ -312,10 +280,16 @@ async function removeAutoRespondChannels(
 async function listAutoRespondChannels(interaction: Discord.CommandInteraction): Promise<string> {
   if (!interaction.guildId || !interaction.guild) return INVALID_GUILD_MESSAGE;
   const channels = await getAutoRespondChannels(interaction.guild);
+  const dbChannels = await Channel.findBy({
+    guild: { id: interaction.guildId },
+    autoRespond: true,
+  });
   const channelText = channels.reduce((list, channel) => {
-    return `${list}\n • <#${channel.id}>`;
+    const dbChannel = dbChannels.find((c) => c.id === channel.id);
+    const limits = dbChannel ? ` (${describeAutoRespondLimits(dbChannel)})` : '';
+    return `${list}\n • <#${channel.id}>${limits}`;
   }, '');
-  return `The bot will automatically respond to all messages in ${channels.length} channel(s).${channelText}`;
+  return `The bot will automatically respond to messages in ${channels.length} channel(s).${channelText}`;
 }
 
 function isHumanAuthoredMessage(message: Discord.Message | Discord.PartialMessage): boolean {
@@ -414,24 +388,33 @@ function isModerator(
 }
 
 /**
- * Checks if the author of a command has a role in the `userRoleIds` config option (if present).
+ * Checks if the author of a command has a role in the `userRoleIds` setting (if present).
  * @param {GuildMember} member Sender of the message
+ * @param {string[]} userRoleIds The guild's allowed role IDs. Defaults to the global config.
  * @return {Boolean} True if the sender is a moderator.
  *
  */
 function isAllowedUser(
   member: Discord.GuildMember | Discord.APIInteractionGuildMember | null,
+  userRoleIds = config.userRoleIds,
 ): boolean {
-  if (!config.userRoleIds.length) return true;
+  if (!userRoleIds.length) return true;
   if (!member) return false;
   if (member instanceof Discord.GuildMember) {
-    return config.userRoleIds.some((p) => member.roles.cache.has(p));
+    return userRoleIds.some((p) => member.roles.cache.has(p));
   }
   // TODO: How to parse API permissions?
   L.debug({ permissions: member.permissions });
   return true;
 }
 
+/**
+ * Checks if a user is one of the bot owners in `ownerIds`
+ */
+function isOwner(user: Discord.User): boolean {
+  return config.ownerIds.includes(user.id);
+}
+
 type MessageCommands = 'respond' | 'train' | 'help' | 'invite' | 'debug' | null;
 
 /**
@@ -460,19 +443,27 @@ function validateMessage(message: Discord.Message): MessageCommands {
   return command;
 }
 
-function messageToData(message: Discord.Message): AddDataProps {
-  const attachmentUrls = message.attachments.map((a) => a.url);
-  let custom: MarkovDataCustom | undefined;
-  if (attachmentUrls.length) custom = { attachments: attachmentUrls };
+/**
+ * Tags identifying where a message's data came from, so it can be removed later
+ */
+function messageTags(message: Discord.Message | Discord.PartialMessage): string[] {
   const tags: string[] = [message.id];
   if (message.channel.isThread()) tags.push(message.channelId); // Add thread channel ID
   const channelId = getGuildChannelId(message.channel);
   if (channelId) tags.push(channelId); // Add guild channel ID
   if (message.guildId) tags.push(message.guildId); // Add guild ID
+  if (message.author) tags.push(message.author.id); // Add author ID
+  return tags;
+}
+
+function messageToData(message: Discord.Message): AddDataProps {
+  const attachmentUrls = message.attachments.map((a) => a.url);
+  let custom: MarkovDataCustom | undefined;
+  if (attachmentUrls.length) custom = { attachments: attachmentUrls };
   return {
     string: message.content,
     custom,
-    tags,
+    tags: messageTags(message),
   };
 }
 
@@ -491,7 +482,12 @@ async function saveGuildMessageHistory(
     return `Training is already in progress. Last update: ${currentState.lastUpdate}. Use /train with clean=true to restart.`;
   }
 
-  const markov = await getMarkovByGuildId(interaction.guildId);
+  if (getBackendSwitch(interaction.guildId)) {
+    return 'This server is switching backends. Try again once it finishes.';
+  }
+
+  const backend = await getCorpusBackend(interaction.guildId);
+  const optedOutUserIds = await getOptedOutUserIds(interaction.guildId);
   const channels = await getValidChannels(interaction.guild);
 
   if (!channels.length) {
@@ -501,7 +497,13 @@ async function saveGuildMessageHistory(
 
   if (clean) {
     L.debug('Deleting old data and resetting state');
-    await markov.delete();
+    try {
+      await backend.clear();
+    } catch (err) {
+      // A backend switch may have started since the check above
+      L.error({ err, guildId: interaction.guildId }, 'Error deleting old data');
+      return `Could not delete the old data: ${(err as Error).message}`;
+    }
     stateManager.reset();
   } else {
     L.debug('Not deleting old data during training');
@@ -558,7 +560,7 @@ async function saveGuildMessageHistory(
 
   const PAGE_SIZE = 200; // Increased from 50 to 200 for fewer API calls
   const UPDATE_RATE = 1000; // Less frequent updates for large datasets
-  const BATCH_SIZE = 500; // Increased from 100 to 500 for better DB performance
+  const BATCH_SIZE = config.batchSize;
   const BATCH_DELAY = 50; // Reduced delay since batches are larger
   const MAX_MEMORY_USAGE = 1024 * 1024 * 1024; // 1GB memory limit
   const MEMORY_CHECK_INTERVAL = 10; // Check memory every N batches instead of every batch
@@ -667,7 +669,7 @@ async function saveGuildMessageHistory(
 
             // Filter and data map messages to be ready for addition to the corpus
             const humanAuthoredMessages = allBatchMessages
-              .filter((m) => isHumanAuthoredMessage(m))
+              .filter((m) => isHumanAuthoredMessage(m) && !optedOutUserIds.has(m.author.id))
               .map(messageToData);
 
             // Process messages in smaller batches for stability
@@ -676,18 +678,12 @@ async function saveGuildMessageHistory(
               L.trace({ oldestMessageID, batchSize: batch.length }, `Saving batch of messages`);
 
               try {
-                // Use optimized batch training or fallback to traditional
-                if (shouldUseOptimizations(interaction.guildId!)) {
-                  L.debug({ guildId: interaction.guildId, batchSize: batch.length }, 'Processing batch with optimized MarkovStore');
-                  const store = await getMarkovStore(interaction.guildId!);
-                  for (const messageData of batch) {
-                    await addDataToMarkovStore(store, messageData);
-                  }
-                } else {
-                  L.debug({ guildId: interaction.guildId, batchSize: batch.length }, 'Processing batch with traditional Markov');
-                  // eslint-disable-next-line no-await-in-loop
-                  await markov.addData(batch);
-                }
+                L.debug(
+                  { guildId: interaction.guildId, backend: backend.name, batchSize: batch.length },
+                  'Processing batch',
+                );
+                // eslint-disable-next-line no-await-in-loop
+                await backend.add(batch);
                 batchCount++;
                 messagesCount += batch.length;
 
@@ -783,6 +779,7 @@ async function saveGuildMessageHistory(
 interface JSONImport {
   message: string;
   attachments?: string[];
+  authorId?: string;
 }
 
 /**
@@ -805,7 +802,12 @@ async function trainFromAttachmentJson(
     return `Training is already in progress. Last update: ${currentState.lastUpdate}. Use clean=true to restart.`;
   }
 
-  const markov = await getMarkovByGuildId(guildId);
+  if (getBackendSwitch(guildId)) {
+    return 'This server is switching backends. Try again once it finishes.';
+  }
+
+  const backend = await getCorpusBackend(guildId);
+  const optedOutUserIds = await getOptedOutUserIds(guildId);
   stateManager.startTraining();
 
   let trainingData: AddDataProps[];
@@ -814,7 +816,7 @@ async function trainFromAttachmentJson(
     if (!getResp.ok) throw new Error(getResp.statusText);
     const importData = (await getResp.json()) as JSONImport[];
 
-    trainingData = importData.map((datum, index) => {
+    trainingData = importData.flatMap((datum, index) => {
       if (!datum.message) {
         throw new Error(`Entry at index ${index} must have a "message"`);
       }
@@ -826,13 +828,21 @@ async function trainFromAttachmentJson(
           `Entry at index ${index} must have all "attachments" each with a type of string`,
         );
       }
+      if (datum.authorId !== undefined && typeof datum.authorId !== 'string') {
+        throw new Error(`Entry at index ${index} must have an "authorId" with a type of string`);
+      }
+      if (datum.authorId && optedOutUserIds.has(datum.authorId)) return [];
       let custom: MarkovDataCustom | undefined;
       if (datum.attachments?.length) custom = { attachments: datum.attachments };
-      return {
-        string: datum.message,
-        custom,
-        tags: [guildId],
-      };
+      const tags = [guildId];
+      if (datum.authorId) tags.push(datum.authorId);
+      return [
+        {
+          string: datum.message,
+          custom,
+          tags,
+        },
+      ];
     });
   } catch (err) {
     L.error(err);
@@ -841,13 +851,21 @@ async function trainFromAttachmentJson(
 
   if (clean) {
     L.debug('Deleting old data');
-    await markov.delete();
+    try {
+      await backend.clear();
+    } catch (err) {
+      // A backend switch may have started since the check above
+      L.error({ err, guildId }, 'Error deleting old data');
+      stateManager.recordError(err as Error);
+      stateManager.finishTraining();
+      return `Could not delete the old data: ${(err as Error).message}`;
+    }
     stateManager.reset();
   } else {
     L.debug('Not deleting old data during training');
   }
 
-  const BATCH_SIZE = 2000; // Increased from 100 to 2000 for better DB performance
+  const BATCH_SIZE = config.batchSize;
   const BATCH_DELAY = 50; // Reduced delay since batches are larger
   const MEMORY_CHECK_INTERVAL = 10; // Check memory every N batches
   let processedCount = 0;
@@ -858,17 +876,11 @@ async function trainFromAttachmentJson(
     for (let i = 0; i < trainingData.length; i += BATCH_SIZE) {
       const batch = trainingData.slice(i, i + BATCH_SIZE);
       try {
-        // Use optimized batch training or fallback to traditional
-        if (shouldUseOptimizations(guildId)) {
-          L.debug({ guildId, batchSize: batch.length }, 'Processing JSON batch with optimized MarkovStore');
-          const store = await getMarkovStore(guildId);
-          for (const messageData of batch) {
-            await addDataToMarkovStore(store, messageData);
-          }
-        } else {
-          L.debug({ guildId, batchSize: batch.length }, 'Processing JSON batch with traditional Markov');
-          await markov.addData(batch);
-        }
+        L.debug(
+          { guildId, backend: backend.name, batchSize: batch.length },
+          'Processing JSON batch',
+        );
+        await backend.add(batch);
         processedCount += batch.length;
         batchCount++;
 
@@ -898,6 +910,124 @@ async function trainFromAttachmentJson(
   }
 }
 
+/**
+ * Moves the interaction's guild to its MarkovStore, the same as switching its backend to it
+ */
+async function migrateGuildStore(interaction: Discord.CommandInteraction): Promise<string> {
+  if (!interaction.guildId) return INVALID_GUILD_MESSAGE;
+  if (!config.enableMarkovStore) {
+    return 'The optimized store is disabled in the bot config (`enableMarkovStore`).';
+  }
+  if ((await resolveBackendName(interaction.guildId)) === 'markov-store') {
+    return 'This server already uses the optimized store.';
+  }
+  return switchBackend(interaction, 'markov-store');
+}
+
+/**
+ * Moves the interaction's guild to another backend, reporting progress in an embed
+ */
+async function switchBackend(
+  interaction: Discord.CommandInteraction,
+  to: CorpusBackendName,
+): Promise<string> {
+  if (!interaction.guildId) return INVALID_GUILD_MESSAGE;
+  const { guildId } = interaction;
+
+  const stateManager = new TrainingStateManager(guildId, CONFIG_DIR);
+  const currentState = stateManager.getState();
+  if (currentState.inProgress) {
+    return `Training is in progress. Last update: ${currentState.lastUpdate}. Try again once it finishes.`;
+  }
+
+  const UPDATE_INTERVAL_MS = 5000;
+  const copiedField: Discord.APIEmbedField = {
+    name: 'Messages Copied',
+    value: '0',
+    inline: true,
+  };
+  const percentField: Discord.APIEmbedField = {
+    name: 'Progress',
+    value: '0%',
+    inline: true,
+  };
+  const embedOptions: Discord.EmbedData = {
+    title: 'Backend Switch Progress',
+    fields: [copiedField, percentField],
+  };
+  const updateMessageData = {
+    content: `Copying the learned messages into ${to}. The bot keeps responding from the current backend until it's done.`,
+    embeds: [new Discord.EmbedBuilder(embedOptions)],
+  };
+  const progressMessage = (await interaction.followUp(updateMessageData)) as Discord.Message;
+  let lastUpdate = Date.now();
+
+  try {
+    const result = await switchGuildBackend(guildId, to, {
+      onProgress: async ({ processedMessages, totalMessages }) => {
+        copiedField.value = `${processedMessages}/${totalMessages}`;
+        percentField.value = totalMessages
+          ? `${((processedMessages / totalMessages) * 100).toFixed(2)}%`
+          : '100%';
+        if (Date.now() - lastUpdate < UPDATE_INTERVAL_MS) return;
+        lastUpdate = Date.now();
+        await progressMessage.edit({
+          ...updateMessageData,
+          embeds: [new Discord.EmbedBuilder(embedOptions)],
+        });
+      },
+    });
+    await progressMessage.edit({
+      ...updateMessageData,
+      embeds: [new Discord.EmbedBuilder(embedOptions)],
+    });
+
+    if (!result.switched) {
+      return `Copied ${result.copiedMessages} messages, but ${to} does not match ${result.from}. The copy was discarded and this server still uses ${result.from}.`;
+    }
+    return `Copied ${result.copiedMessages} messages. This server now uses ${to}. Switch back to ${result.from} the same way if needed.`;
+  } catch (err) {
+    const error = err as Error;
+    return `The switch encountered an error: ${error.message}. This server still uses its previous backend.`;
+  }
+}
+
+/**
+ * Shows the backend the guild uses, why, and the progress of any switch
+ */
+async function backendStatusMessage(guildId: string): Promise<AgnosticReplyOptions> {
+  const backend = await resolveBackendName(guildId);
+  const pinned = await getGuildBackend(guildId);
+  const backendSwitch = getBackendSwitch(guildId);
+  const fields: Discord.APIEmbedField[] = [
+    {
+      name: 'Backend',
+      value: pinned === backend ? `${backend} (switched)` : `${backend} (bot config)`,
+    },
+  ];
+  if (backendSwitch) {
+    const { processedMessages, totalMessages } = backendSwitch.progress;
+    fields.push({
+      name: 'Switching',
+      value: `To ${backendSwitch.to}, started ${formatDistanceToNow(backendSwitch.startedAt)} ago: ${processedMessages}/${totalMessages} messages copied`,
+    });
+  }
+  const embed = new Discord.EmbedBuilder().setTitle('Server Backend').addFields(fields);
+  return { embeds: [embed] };
+}
+
+/**
+ * Removes everything learned from a user in the interaction's guild
+ */
+async function forgetUser(
+  interaction: Discord.ChatInputCommandInteraction,
+  userId: string,
+): Promise<string> {
+  if (!interaction.guildId) return INVALID_GUILD_MESSAGE;
+  await forgetUserData(interaction.guildId, userId);
+  return `Removed everything learned from <@${userId}>. Messages learned before authors were recorded can only be removed by re-training.`;
+}
+
 interface GenerateResponse {
   message?: AgnosticReplyOptions;
   debug?: AgnosticReplyOptions;
@@ -907,6 +1037,10 @@ interface GenerateResponse {
 interface GenerateOptions {
   debug?: boolean;
   startSeed?: string;
+  /** Overrides the guild's sampling settings */
+  sampling?: SamplingOptions;
+  /** A message being replied to. The response includes one of its keywords when possible. */
+  replyTo?: string;
 }
 
 /**
@@ -921,80 +1055,44 @@ async function generateResponse(
   options?: GenerateOptions,
 ): Promise<GenerateResponse> {
   L.debug({ options }, 'Responding...');
-  const { debug = false, startSeed } = options || {};
+  const { debug = false, startSeed, sampling, replyTo } = options || {};
   if (!interaction.guildId) {
     L.warn('Received an interaction without a guildId');
     return { error: { content: INVALID_GUILD_MESSAGE } };
   }
-  if (!isAllowedUser(interaction.member)) {
+  const settings = await getGuildSettings(interaction.guildId);
+  if (!isAllowedUser(interaction.member, settings.userRoleIds)) {
     L.info('Member does not have permissions to generate a response');
     return { error: { content: INVALID_PERMISSIONS_MESSAGE } };
   }
-  // Use optimized MarkovStore or fallback to traditional Markov
-  const optimizedMarkov = await getOptimizedMarkov(interaction.guildId);
-  let response: any;
+  const backend = await getCorpusBackend(interaction.guildId);
 
   try {
-    const workerPool = getWorkerPool();
-    if (optimizedMarkov.useOptimized && optimizedMarkov.store) {
-      // Use optimized MarkovStore with O(1) alias method sampling
-      L.debug({ guildId: interaction.guildId }, 'Generating response with optimized MarkovStore');
-
-      const maxLength = 100; // Default max length
-      // Offload chain sampling to worker pool
-      const workerResponse = await workerPool.generateResponse(
-        interaction.guildId,
-        startSeed || '',
-        maxLength
-      );
-
-      response = adaptMarkovStoreResponse(workerResponse.response.split(' '));
-
-      L.info({ string: response.string, optimized: true }, 'Generated optimized response text');
-    } else {
-      // Fallback to traditional markov-strings-db
-      L.debug({ guildId: interaction.guildId }, 'Generating response with traditional Markov');
-      markovGenerateOptions.startSeed = startSeed;
-      response = await optimizedMarkov.markov!.generate<MarkovDataCustom>(markovGenerateOptions);
-      L.info({ string: response.string, optimized: false }, 'Generated traditional response text');
-    }
-    L.info({ string: response.string }, 'Generated response text');
+    const response = await backend.generate({
+      seed: startSeed,
+      replyTo,
+      sampling: {
+        temperature: sampling?.temperature ?? settings.temperature,
+        topK: sampling?.topK ?? settings.topK,
+        topP: sampling?.topP ?? settings.topP,
+      },
+      maxTries: settings.maxTries,
+      minScore: settings.minScore,
+    });
+    L.info({ string: response.string, backend: backend.name }, 'Generated response text');
     L.debug({ response }, 'Generated response object');
     const messageOpts: AgnosticReplyOptions = {
       allowedMentions: { repliedUser: false, parse: [] },
     };
-    const attachmentUrls = response.refs
-      .filter((ref: any) => ref.custom && 'attachments' in ref.custom)
-      .flatMap((ref: any) => (ref.custom as MarkovDataCustom).attachments);
+    const attachmentUrls = response.refs.flatMap((ref) => ref.custom?.attachments ?? []);
     if (attachmentUrls.length > 0) {
-      const randomRefAttachment = getRandomElement(attachmentUrls) as string;
+      const randomRefAttachment = getRandomElement(attachmentUrls);
       const refreshedUrl = await refreshCdnUrl(randomRefAttachment);
       messageOpts.files = [refreshedUrl];
     } else {
-      // Efficient random selection - avoid expensive ORDER BY RANDOM()
-      const totalCount = await MarkovInputData.createQueryBuilder<
-        MarkovInputData<MarkovDataCustom>
-      >('input')
-        .leftJoinAndSelect('input.markov', 'markov')
-        .where({ markov: optimizedMarkov.markov!.db })
-        .getCount();
-
-      if (totalCount === 0) {
-        return { message: messageOpts }; // No data available
-      }
-
-      const randomOffset = Math.floor(Math.random() * totalCount);
-      const randomMessage = await MarkovInputData.createQueryBuilder<
-        MarkovInputData<MarkovDataCustom>
-      >('input')
-        .leftJoinAndSelect('input.markov', 'markov')
-        .where({ markov: optimizedMarkov.markov!.db })
-        .offset(randomOffset)
-        .limit(1)
-        .getOne();
-      const randomMessageAttachmentUrls = randomMessage?.custom?.attachments;
-      if (randomMessageAttachmentUrls?.length) {
-        const attachmentUrl = getRandomElement(randomMessageAttachmentUrls);
+      const randomInputAttachmentUrls = (await backend.getRandomInput())?.custom?.attachments;
+      if (randomInputAttachmentUrls?.length) {
+        const attachmentUrl = getRandomElement(randomInputAttachmentUrls);
         const refreshedUrl = await refreshCdnUrl(attachmentUrl);
         messageOpts.files = [{ attachment: refreshedUrl }];
       }
@@ -1043,6 +1141,183 @@ function getChannelsFromInteraction(
   return textChannels;
 }
 
+function getRoleIdsFromInteraction(interaction: Discord.ChatInputCommandInteraction): string[] {
+  return Array.from(Array(USER_ROLE_OPTIONS_MAX).keys())
+    .map((index) => interaction.options.getRole(`role-${index + 1}`, index === 0))
+    .filter((r): r is Discord.Role | Discord.APIRole => r !== null)
+    .map((r) => r.id);
+}
+
+/**
+ * What happens to a guild's learned messages after its state size changes. The optimized store
+ * only learns messages with the state size it was trained with, so it stops learning until a
+ * retrain rebuilds it.
+ */
+async function stateSizeNotice(guildId: string, stateSize: number): Promise<string> {
+  if ((await resolveBackendName(guildId)) === 'markov-store') {
+    const compatible = await withMarkovStore(guildId, (store) =>
+      store.isCompatibleStateSize(stateSize),
+    );
+    if (compatible) return '';
+    return ` The bot won't learn new messages until \`/train\` rebuilds past messages with a state size of ${stateSize}.`;
+  }
+  return ' Use `/train` to rebuild past messages with the new state size.';
+}
+
+/**
+ * Shows a guild's effective settings, marking which ones override the global config
+ */
+async function settingsMessage(guildId: string): Promise<AgnosticReplyOptions> {
+  const overrides = await GuildSettings.findOneBy({ id: guildId });
+  const settings = resolveGuildSettings(overrides);
+  const describe = (key: GuildSettingKey, value: string): string =>
+    overrides?.[key] !== null && overrides?.[key] !== undefined
+      ? `${value} (server)`
+      : `${value} (default)`;
+  const listOrAll = (ids: string[], format: (id: string) => string, all: string): string =>
+    ids.length ? ids.map(format).join(', ') : all;
+  const embed = new Discord.EmbedBuilder().setTitle('Server Settings').addFields([
+    { name: 'State Size', value: describe('stateSize', `${settings.stateSize}`), inline: true },
+    { name: 'Max Tries', value: describe('maxTries', `${settings.maxTries}`), inline: true },
+    { name: 'Min Score', value: describe('minScore', `${settings.minScore}`), inline: true },
+    {
+      name: 'Temperature',
+      value: describe('temperature', `${settings.temperature}`),
+      inline: true,
+    },
+    { name: 'Top K', value: describe('topK', `${settings.topK || 'All'}`), inline: true },
+    { name: 'Top P', value: describe('topP', `${settings.topP}`), inline: true },
+    {
+      name: 'Response Channels',
+      value: describe(
+        'responseChannelIds',
+        listOrAll(settings.responseChannelIds, (id) => `<#${id}>`, 'Any channel'),
+      ),
+    },
+    {
+      name: 'User Roles',
+      value: describe(
+        'userRoleIds',
+        listOrAll(settings.userRoleIds, (id) => `<@&${id}>`, 'Any member'),
+      ),
+    },
+  ]);
+  return { embeds: [embed], allowedMentions: { parse: [] } };
+}
+
+/**
+ * Compares the guild's backends over the requests sampled in shadow mode
+ * @param reset Forget the samples once they're reported
+ */
+async function shadowReportMessage(guildId: string, reset: boolean): Promise<AgnosticReplyOptions> {
+  const report = await getShadowReport(guildId, await resolveBackendName(guildId));
+  if (reset) await resetShadowStats(guildId);
+
+  const since = report.since ? ` over the last ${formatDistanceToNow(report.since)}` : '';
+  const verdict = report.safeToSwitch
+    ? `Safe to switch to ${report.candidate}.`
+    : `Not safe to switch to ${report.candidate} yet:${report.reasons
+        .map((reason) => `\n • ${reason}`)
+        .join('')}`;
+  const embed = new Discord.EmbedBuilder()
+    .setTitle('Shadow Mode Report')
+    .setDescription(
+      `This server uses ${report.serving}, compared with ${report.candidate}${since}.`,
+    )
+    .addFields([
+      {
+        name: `Generating: ${report.serving}`,
+        value: describeShadowSummary('generate', report.generate.serving),
+      },
+      {
+        name: `Generating: ${report.candidate}`,
+        value: describeShadowSummary('generate', report.generate.candidate),
+      },
+      {
+        name: `Learning: ${report.serving}`,
+        value: describeShadowSummary('add', report.add.serving),
+      },
+      {
+        name: `Learning: ${report.candidate}`,
+        value: describeShadowSummary('add', report.add.candidate),
+      },
+      { name: 'Verdict', value: verdict },
+    ]);
+
+  const notices: string[] = [];
+  if (!isShadowModeEnabled()) {
+    notices.push(
+      'Shadow mode is off in the bot config (`shadowSamplePercentage`), so no new samples are being recorded.',
+    );
+  }
+  if (reset) notices.push('The samples were reset for a fresh comparison.');
+  return { content: notices.join(' ') || undefined, embeds: [embed] };
+}
+
+/**
+ * Summarizes the performance metrics collected since the bot started
+ */
+function metricsMessage(): AgnosticReplyOptions {
+  if (!isMetricsEnabled()) {
+    return {
+      content: 'Performance monitoring is off in the bot config (`enablePerformanceMonitoring`).',
+    };
+  }
+  const summary = getMetricsSummary();
+  const ms = (seconds: number): string => `${(seconds * 1000).toFixed(1)} ms`;
+  const list = <T>(items: T[], format: (item: T) => string): string =>
+    items.length ? items.map(format).join('\n') : 'None yet';
+  const { stores } = summary;
+  const embed = new Discord.EmbedBuilder()
+    .setTitle('Performance Metrics')
+    .addFields([
+      {
+        name: 'Generation Latency',
+        value: list(
+          summary.generation,
+          (h) =>
+            `${h.labels.backend} (${h.labels.outcome}): ${h.count}, ${ms(h.mean)} mean, ${ms(h.p95)} p95`,
+        ),
+      },
+      {
+        name: 'Training Throughput',
+        value: list(summary.trainingMessages, ({ labels, value }) => {
+          const throughput = summary.trainingThroughput.find(
+            (h) => h.labels.backend === labels.backend,
+          );
+          return `${labels.backend}: ${value} messages, ${(throughput?.mean ?? 0).toFixed(0)}/s mean`;
+        }),
+      },
+      {
+        name: 'Worker Queue Wait',
+        value: list(
+          summary.workerQueueWait,
+          (h) => `${h.labels.type}: ${h.count}, ${ms(h.mean)} mean, ${ms(h.p95)} p95`,
+        ),
+      },
+      {
+        name: 'Worker Task Time',
+        value: list(
+          summary.workerTaskDuration,
+          (h) =>
+            `${h.labels.type} (${h.labels.outcome}): ${h.count}, ${ms(h.mean)} mean, ${ms(h.p95)} p95`,
+        ),
+      },
+      {
+        name: 'Cached Stores',
+        value: `${stores.cachedStores} stores, ${stores.inputCount} messages, ${stores.prefixCount} prefixes, ${(stores.estimatedMemory / 1024 / 1024).toFixed(1)} MB`,
+      },
+      {
+        name: 'Discord Events',
+        value: list(summary.discordEvents, ({ labels, value }) => `${labels.event}: ${value}`),
+      },
+    ])
+    .setFooter({
+      text: `Prometheus metrics are served at ${config.metricsHost}:${config.metricsPort}/metrics`,
+    });
+  return { embeds: [embed] };
+}
+
 function helpMessage(): AgnosticReplyOptions {
   const avatarURL = client.user.avatarURL() || undefined;
   const embed = new Discord.EmbedBuilder()
@@ -1067,7 +1342,12 @@ function helpMessage(): AgnosticReplyOptions {
 
       {
         name: `/autorespond`,
-        value: `Add, remove, list, or modify the list of channels where the bot will automatically respond to all messages.`,
+        value: `Add, remove, list, or modify the list of channels where the bot will automatically respond to messages, and configure how often it responds.`,
+      },
+
+      {
+        name: `/${chatterCommand.name}`,
+        value: `Let the bot post unprompted messages in a listened channel after a number of messages or a random period of inactivity. Messages are counted from the bot's last post or restart.`,
       },
 
       {
@@ -1075,6 +1355,41 @@ function helpMessage(): AgnosticReplyOptions {
         value: `Fetches the maximum amount of previous messages in the listened to text channels. This takes some time.`,
       },
 
+      {
+        name: `/${storeCommand.name} migrate`,
+        value: `Copies the learned messages into the optimized store and switches this server to it (bot owners only).`,
+      },
+
+      {
+        name: `/${backendCommand.name}`,
+        value: `Move this server between corpus backends, or show the one it uses (bot owners only).`,
+      },
+
+      {
+        name: `/${metricsCommand.name}`,
+        value: `Summarize generation, training, worker and store performance (bot owners only).`,
+      },
+
+      {
+        name: `/${storeCommand.name} shadow-report`,
+        value: `Compares the two backends over the requests sampled in shadow mode, and whether this server is safe to switch.`,
+      },
+
+      {
+        name: `/${privacyCommand.name}`,
+        value: `Opt out of (or back into) having your messages learned by the bot.`,
+      },
+
+      {
+        name: `/${forgetCommand.name}`,
+        value: `Remove everything the bot has learned from you, or from a member (moderators only).`,
+      },
+
+      {
+        name: `/${settingsCommand.name}`,
+        value: `View, set, or reset the generation settings for this server.`,
+      },
+
       {
         name: `${config.messageCommandPrefix} invite or /${inviteCommand.name}`,
         value: `Post this bot's invite URL.`,
@@ -1151,9 +1466,11 @@ client.on('clientReady', async (readyClient) => {
     await Promise.all(readyClient.guilds.valueOf().map(async (guild) => guild.commands.set([])));
   }
   await Guild.upsert(guildsToSave, ['id']);
+  await startChatterScheduler(postChatter);
 });
 
 client.on('guildCreate', async (guild) => {
+  countDiscordEvent('guildCreate');
   L.info({ guildId: guild.id }, 'Adding new guild');
   await Guild.upsert(Guild.create({ id: guild.id }), ['id']);
 });
@@ -1163,6 +1480,7 @@ client.on('warn', (m) => L.warn(m));
 client.on('error', (m) => L.error(m));
 
 client.on('messageCreate', async (message) => {
+  countDiscordEvent('messageCreate');
   // Debug logging for message reception
   const embedsText = message.embeds.length > 0 ? `[${message.embeds.length} embed(s)]` : '';
   const componentsText = message.components.length > 0 ? `[${message.components.length} component(s)]` : '';
@@ -1243,76 +1561,84 @@ client.on('messageCreate', async (message) => {
     if (isHumanAuthoredMessage(message)) {
       if (client.user && message.mentions.has(client.user)) {
         // Check if response channels are configured and if this channel is allowed
-        if (
-          config.responseChannelIds.length > 0 &&
-          !config.responseChannelIds.includes(message.channel.id)
-        ) {
+        const { responseChannelIds } = await getGuildSettings(message.guild.id);
+        if (responseChannelIds.length > 0 && !responseChannelIds.includes(message.channel.id)) {
           L.debug('Ignoring mention in non-response channel');
           return;
         }
 
         L.debug('Responding to mention');
-        // <@!278354154563567636> how are you doing?
-        const startSeed = message.content.replace(/<@!\d+>/g, '').trim();
-        const generatedResponse = await generateResponse(message, { startSeed });
+        const generatedResponse = await generateResponse(message, { replyTo: message.content });
         await handleResponseMessage(generatedResponse, message);
-      } else if (await isAutoRespondChannel(message.channel)) {
+      } else if (await shouldAutoRespond(message)) {
         // Auto-respond to all messages in configured channels using message content as context
         L.debug('Auto-responding in configured channel with context');
-        const startSeed = message.content.trim();
-        const generatedResponse = await generateResponse(message, { startSeed });
+        const generatedResponse = await generateResponse(message, { replyTo: message.content });
         await handleResponseMessage(generatedResponse, message);
       }
 
-      if (await isValidChannel(message.channel)) {
+      if (
+        (await isValidChannel(message.channel)) &&
+        !(await isOptedOut(message.channel.guildId, message.author.id))
+      ) {
         L.debug('Listening');
-        // Use optimized training or fallback to traditional
-        if (shouldUseOptimizations(message.channel.guildId)) {
-          L.debug({ guildId: message.channel.guildId }, 'Adding message data with optimized MarkovStore');
-          const store = await getMarkovStore(message.channel.guildId);
-          await addDataToMarkovStore(store, messageToData(message));
-        } else {
-          // Fallback to traditional markov-strings-db
-          L.debug({ guildId: message.channel.guildId }, 'Adding message data with traditional Markov');
-          const markov = await getMarkovByGuildId(message.channel.guildId);
-          await markov.addData([messageToData(message)]);
-        }
+        const backend = await getCorpusBackend(message.channel.guildId);
+        await backend.add([messageToData(message)]);
+      }
+
+      try {
+        const chatterChannel = await getChatterChannel(message.channel);
+        if (chatterChannel) await recordChatterActivity(chatterChannel);
+      } catch (err) {
+        L.error({ err, channelId: message.channel.id }, 'Failed to record chatter activity');
       }
     }
   }
 });
 
 client.on('messageDelete', async (message) => {
+  countDiscordEvent('messageDelete');
   if (!isHumanAuthoredMessage(message)) return;
   if (!(await isValidChannel(message.channel))) return;
   if (!message.guildId) return;
 
   L.debug(`Deleting message ${message.id}`);
-  const markov = await getMarkovByGuildId(message.guildId);
-  await markov.removeTags([message.id]);
+  const backend = await getCorpusBackend(message.guildId);
+  await backend.removeTags([message.id]);
 });
 
 client.on('messageUpdate', async (oldMessage, newMessage) => {
+  countDiscordEvent('messageUpdate');
   if (!isHumanAuthoredMessage(oldMessage)) return;
   if (!(await isValidChannel(oldMessage.channel))) return;
   if (!(oldMessage.guildId && newMessage.content)) return;
+  if (newMessage.author && (await isOptedOut(oldMessage.guildId, newMessage.author.id))) return;
 
   L.debug(`Editing message ${oldMessage.id}`);
-  const markov = await getMarkovByGuildId(oldMessage.guildId);
-  await markov.removeTags([oldMessage.id]);
-  await markov.addData([newMessage.content]);
+  const editedData: AddDataProps = {
+    string: newMessage.content,
+    custom: newMessage.attachments.size
+      ? { attachments: newMessage.attachments.map((a) => a.url) }
+      : undefined,
+    tags: messageTags(newMessage),
+  };
+  const backend = await getCorpusBackend(oldMessage.guildId);
+  await backend.removeTags([oldMessage.id]);
+  await backend.add([editedData]);
 });
 
 client.on('threadDelete', async (thread) => {
+  countDiscordEvent('threadDelete');
   if (!(await isValidChannel(thread))) return;
   if (!thread.guildId) return;
 
   L.debug(`Deleting thread messages ${thread.id}`);
-  const markov = await getMarkovByGuildId(thread.guildId);
-  await markov.removeTags([thread.id]);
+  const backend = await getCorpusBackend(thread.guildId);
+  await backend.removeTags([thread.id]);
 });
 
 client.on('interactionCreate', async (interaction) => {
+  countDiscordEvent('interactionCreate');
   if (interaction.isChatInputCommand()) {
     L.info({ command: interaction.commandName }, 'Recieved slash command');
 
@@ -1324,7 +1650,16 @@ client.on('interactionCreate', async (interaction) => {
       await interaction.deferReply();
       const debug = interaction.options.getBoolean('debug') || false;
       const startSeed = interaction.options.getString('seed')?.trim() || undefined;
-      const generatedResponse = await generateResponse(interaction, { debug, startSeed });
+      const sampling: SamplingOptions = {
+        temperature: interaction.options.getNumber('temperature') ?? undefined,
+        topK: interaction.options.getInteger('top-k') ?? undefined,
+        topP: interaction.options.getNumber('top-p') ?? undefined,
+      };
+      const generatedResponse = await generateResponse(interaction, {
+        debug,
+        startSeed,
+        sampling,
+      });
 
       if (generatedResponse.message) {
         await interaction.editReply(generatedResponse.message);
@@ -1397,13 +1732,52 @@ client.on('interactionCreate', async (interaction) => {
       }
     } else if (interaction.commandName === autoRespondCommand.name) {
       await interaction.deferReply();
+      const subCommandGroup = interaction.options.getSubcommandGroup();
       const subCommand = interaction.options.getSubcommand(true) as
         | 'add'
         | 'remove'
         | 'list'
-        | 'modify';
+        | 'modify'
+        | 'probability'
+        | 'cooldown'
+        | 'user-limit'
+        | 'quiet-hours';
 
-      if (subCommand === 'list') {
+      if (subCommandGroup === 'configure') {
+        if (!isModerator(interaction.member)) {
+          return handleUnprivileged(interaction);
+        }
+        if (!interaction.guildId) {
+          return handleNoGuild(interaction);
+        }
+        const channel = interaction.options.getChannel('channel', true);
+        const start = interaction.options.getInteger('start');
+        const end = interaction.options.getInteger('end');
+        if (subCommand === 'quiet-hours' && (start === null) !== (end === null)) {
+          await interaction.editReply('Provide both a start and an end hour, or neither.');
+          return undefined;
+        }
+        const dbChannel =
+          (await Channel.findOneBy({ id: channel.id })) ||
+          Channel.create({ id: channel.id, guild: Guild.create({ id: interaction.guildId }) });
+        if (subCommand === 'probability') {
+          dbChannel.autoRespondProbability = interaction.options.getInteger('percent', true) / 100;
+        } else if (subCommand === 'cooldown') {
+          dbChannel.autoRespondCooldown = interaction.options.getInteger('seconds', true);
+        } else if (subCommand === 'user-limit') {
+          dbChannel.autoRespondUserHourlyLimit = interaction.options.getInteger('replies', true);
+        } else if (subCommand === 'quiet-hours') {
+          dbChannel.quietHoursStart = start;
+          dbChannel.quietHoursEnd = end;
+        }
+        const saved = await dbChannel.save();
+        const notice = saved.autoRespond
+          ? ''
+          : ' It is not an auto-respond channel yet; use `/autorespond add` to enable it.';
+        await interaction.editReply(
+          `Auto-respond limits for <#${channel.id}>: ${describeAutoRespondLimits(saved)}.${notice}`,
+        );
+      } else if (subCommand === 'list') {
         const reply = await listAutoRespondChannels(interaction);
         await interaction.editReply(reply);
       } else if (subCommand === 'add') {
@@ -1472,6 +1846,229 @@ client.on('interactionCreate', async (interaction) => {
         // Send a message in reply to the reply to avoid the 15 minute webhook token timeout
         await reply.reply({ content: responseMessage });
       }
+    } else if (interaction.commandName === storeCommand.name) {
+      await interaction.deferReply();
+      const subCommand = interaction.options.getSubcommand(true) as 'migrate' | 'shadow-report';
+      if (subCommand === 'migrate') {
+        if (!isOwner(interaction.user)) {
+          return handleUnprivileged(interaction);
+        }
+        const reply = (await interaction.fetchReply()) as Discord.Message; // Must fetch the reply ASAP
+        const responseMessage = await migrateGuildStore(interaction);
+        // Send a message in reply to the reply to avoid the 15 minute webhook token timeout
+        await reply.reply({ content: responseMessage });
+      } else if (subCommand === 'shadow-report') {
+        if (!isModerator(interaction.member)) {
+          return handleUnprivileged(interaction);
+        }
+        if (!interaction.guildId) {
+          return handleNoGuild(interaction);
+        }
+        const reset = interaction.options.getBoolean('reset') ?? false;
+        await interaction.editReply(await shadowReportMessage(interaction.guildId, reset));
+      }
+    } else if (interaction.commandName === metricsCommand.name) {
+      await interaction.deferReply();
+      if (!isOwner(interaction.user)) {
+        return handleUnprivileged(interaction);
+      }
+      await interaction.editReply(metricsMessage());
+    } else if (interaction.commandName === backendCommand.name) {
+      await interaction.deferReply();
+      const subCommand = interaction.options.getSubcommand(true) as 'switch' | 'status';
+      if (!isOwner(interaction.user)) {
+        return handleUnprivileged(interaction);
+      }
+      if (!interaction.guildId) {
+        return handleNoGuild(interaction);
+      }
+      if (subCommand === 'status') {
+        await interaction.editReply(await backendStatusMessage(interaction.guildId));
+      } else if (subCommand === 'switch') {
+        const to = interaction.options.getString('backend', true) as CorpusBackendName;
+        const reply = (await interaction.fetchReply()) as Discord.Message; // Must fetch the reply ASAP
+        const responseMessage = await switchBackend(interaction, to);
+        // Send a message in reply to the reply to avoid the 15 minute webhook token timeout
+        await reply.reply({ content: responseMessage });
+      }
+    } else if (interaction.commandName === chatterCommand.name) {
+      await interaction.deferReply();
+      const subCommand = interaction.options.getSubcommand(true) as 'enable' | 'disable' | 'list';
+      if (!interaction.guildId) {
+        return handleNoGuild(interaction);
+      }
+      if (subCommand === 'list') {
+        const channels = await Channel.findBy({
+          guild: { id: interaction.guildId },
+          chatter: true,
+        });
+        const reply = channels.length
+          ? channels.map((channel) => `<#${channel.id}>: ${describeChatter(channel)}`).join('\n')
+          : 'Chatter is not enabled in any channels.';
+        await interaction.editReply(reply);
+        return undefined;
+      }
+      if (!isModerator(interaction.member)) {
+        return handleUnprivileged(interaction);
+      }
+      const channel = interaction.options.getChannel('channel', true);
+      const dbChannel = await Channel.findOneBy({ id: channel.id });
+      if (subCommand === 'disable') {
+        if (dbChannel?.chatter) {
+          dbChannel.chatter = false;
+          await dbChannel.save();
+        }
+        await resetChatter(channel.id);
+        await interaction.editReply(`Disabled chatter in <#${channel.id}>.`);
+        return undefined;
+      }
+
+      const messages = interaction.options.getInteger('messages') ?? 0;
+      const idleMax = interaction.options.getInteger('idle-max');
+      const idleMin = interaction.options.getInteger('idle-min') ?? (idleMax === null ? null : 1);
+      if (messages === 0 && idleMin === null) {
+        await interaction.editReply('Provide a number of messages, an inactivity period, or both.');
+        return undefined;
+      }
+      if (idleMin !== null && idleMax !== null && idleMin > idleMax) {
+        await interaction.editReply('The shortest wait cannot be longer than the longest wait.');
+        return undefined;
+      }
+      if (!dbChannel?.listen) {
+        await interaction.editReply(
+          `The bot does not listen to <#${channel.id}>; use \`/${listenChannelCommand.name} add\` first.`,
+        );
+        return undefined;
+      }
+      dbChannel.chatter = true;
+      dbChannel.chatterMessageInterval = messages;
+      dbChannel.chatterIdleMinMinutes = idleMin ?? 0;
+      dbChannel.chatterIdleMaxMinutes = idleMax ?? idleMin ?? 0;
+      const saved = await dbChannel.save();
+      await resetChatter(channel.id);
+      await interaction.editReply(
+        `Chatter enabled in <#${channel.id}>: ${describeChatter(saved)}.`,
+      );
+    } else if (interaction.commandName === forgetCommand.name) {
+      await interaction.deferReply({ ephemeral: true });
+      const subCommand = interaction.options.getSubcommand(true) as 'me' | 'user';
+      if (!interaction.guildId) {
+        return handleNoGuild(interaction);
+      }
+      if (subCommand === 'me') {
+        const reply = await forgetUser(interaction, interaction.user.id);
+        await interaction.editReply({ content: reply, allowedMentions: { parse: [] } });
+      } else if (subCommand === 'user') {
+        if (!isModerator(interaction.member)) {
+          return handleUnprivileged(interaction);
+        }
+        const user = interaction.options.getUser('user', true);
+        const reply = await forgetUser(interaction, user.id);
+        await interaction.editReply({ content: reply, allowedMentions: { parse: [] } });
+      }
+    } else if (interaction.commandName === privacyCommand.name) {
+      await interaction.deferReply({ ephemeral: true });
+      const subCommand = interaction.options.getSubcommand(true) as 'optout' | 'optin' | 'list';
+      if (!interaction.guildId) {
+        return handleNoGuild(interaction);
+      }
+      if (subCommand === 'optout') {
+        const changed = await optOut(interaction.guildId, interaction.user.id);
+        await interaction.editReply(
+          changed
+            ? `The bot will no longer learn from your messages in this server. Use \`/${forgetCommand.name} me\` to also remove what it already learned.`
+            : 'You have already opted out in this server.',
+        );
+      } else if (subCommand === 'optin') {
+        const changed = await optIn(interaction.guildId, interaction.user.id);
+        await interaction.editReply(
+          changed
+            ? 'The bot will learn from your messages in this server again.'
+            : 'You have not opted out in this server.',
+        );
+      } else if (subCommand === 'list') {
+        if (!isModerator(interaction.member)) {
+          return handleUnprivileged(interaction);
+        }
+        const userIds = Array.from(await getOptedOutUserIds(interaction.guildId));
+        const userText = userIds.reduce((list, userId) => `${list}\n • <@${userId}>`, '');
+        await interaction.editReply({
+          content: `${userIds.length} member(s) have opted out of being learned from.${userText}`,
+          allowedMentions: { parse: [] },
+        });
+      }
+    } else if (interaction.commandName === settingsCommand.name) {
+      await interaction.deferReply();
+      const subCommand = interaction.options.getSubcommand(true) as
+        | 'view'
+        | 'set'
+        | 'response-channels'
+        | 'user-roles'
+        | 'reset';
+      if (!isModerator(interaction.member)) {
+        return handleUnprivileged(interaction);
+      }
+      if (!interaction.guildId) {
+        return handleNoGuild(interaction);
+      }
+
+      if (subCommand === 'view') {
+        await interaction.editReply(await settingsMessage(interaction.guildId));
+      } else if (subCommand === 'set') {
+        const stateSize = interaction.options.getInteger('state-size');
+        const maxTries = interaction.options.getInteger('max-tries');
+        const minScore = interaction.options.getInteger('min-score');
+        const temperature = interaction.options.getNumber('temperature');
+        const topK = interaction.options.getInteger('top-k');
+        const topP = interaction.options.getNumber('top-p');
+        if (
+          [stateSize, maxTries, minScore, temperature, topK, topP].every((value) => value === null)
+        ) {
+          await interaction.editReply('No settings were provided to change.');
+          return undefined;
+        }
+        const previous = await getGuildSettings(interaction.guildId);
+        await updateGuildSettings(interaction.guildId, {
+          stateSize: stateSize ?? undefined,
+          maxTries: maxTries ?? undefined,
+          minScore: minScore ?? undefined,
+          temperature: temperature ?? undefined,
+          topK: topK ?? undefined,
+          topP: topP ?? undefined,
+        });
+        const retrainNotice =
+          stateSize !== null && stateSize !== previous.stateSize
+            ? await stateSizeNotice(interaction.guildId, stateSize)
+            : '';
+        await interaction.editReply(`Updated the server settings.${retrainNotice}`);
+      } else if (subCommand === 'response-channels') {
+        const channels = getChannelsFromInteraction(interaction);
+        await updateGuildSettings(interaction.guildId, {
+          responseChannelIds: channels.map((c) => c.id),
+        });
+        await interaction.editReply(
+          `The bot will now only respond to mentions in ${channels.length} text channel(s).`,
+        );
+      } else if (subCommand === 'user-roles') {
+        const roleIds = getRoleIdsFromInteraction(interaction);
+        await updateGuildSettings(interaction.guildId, { userRoleIds: roleIds });
+        await interaction.editReply(
+          `Only members with one of ${roleIds.length} role(s) can now generate messages.`,
+        );
+      } else if (subCommand === 'reset') {
+        const setting = interaction.options.getString('setting') as GuildSettingKey | null;
+        const previous = await getGuildSettings(interaction.guildId);
+        await resetGuildSettings(interaction.guildId, setting ? [setting] : undefined);
+        const { stateSize } = await getGuildSettings(interaction.guildId);
+        const retrainNotice =
+          stateSize !== previous.stateSize
+            ? await stateSizeNotice(interaction.guildId, stateSize)
+            : '';
+        const reset = setting
+          ? `Reset \`${setting}\` to the default.`
+          : 'Reset all settings to the defaults.';
+        await interaction.editReply(`${reset}${retrainNotice}`);
+      }
     }
   } else if (interaction.isStringSelectMenu()) {
     if (interaction.customId === 'listen-modify-select') {
@@ -1551,35 +2148,25 @@ async function main(): Promise<void> {
   // Initialize worker pool for CPU offloading if enabled
   if (config.enableWorkerPool) {
     L.info({ workerPoolSize: config.workerPoolSize }, 'Initializing worker pool for performance optimization');
-    const workerPool = getWorkerPool(config.workerPoolSize);
-    
-    // Add graceful shutdown handler for worker pool
-    const shutdownHandler = async () => {
-      L.info('Shutting down worker pool...');
-      await workerPool.shutdown();
-      process.exit(0);
-    };
-    
-    process.on('SIGINT', shutdownHandler);
-    process.on('SIGTERM', shutdownHandler);
+    getWorkerPool(config.workerPoolSize);
   }
-  
-  // Initialize worker pool for CPU offloading if enabled
-  if (config.enableWorkerPool) {
-    L.info({ workerPoolSize: config.workerPoolSize }, 'Initializing worker pool for performance optimization');
-    const workerPool = getWorkerPool(config.workerPoolSize);
-    
-    // Add graceful shutdown handler for worker pool
-    const shutdownHandler = async () => {
-      L.info('Shutting down worker pool...');
-      await workerPool.shutdown();
-      process.exit(0);
-    };
-    
-    process.on('SIGINT', shutdownHandler);
-    process.on('SIGTERM', shutdownHandler);
-  }
-  
+
+  startMetricsServer();
+
+  // Add graceful shutdown handler for the worker pool and stores
+  const shutdownHandler = async () => {
+    stopChatterScheduler();
+    await stopMetricsServer();
+    L.info('Shutting down worker pool...');
+    await shutdownWorkerPool();
+    L.info('Flushing Markov stores...');
+    await flushAllStores();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', shutdownHandler);
+  process.on('SIGTERM', shutdownHandler);
+
   await client.login(config.token);
 }
 
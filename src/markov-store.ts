@@ -1,8 +1,13 @@
 import 'source-map-support/register';
 import fs from 'fs/promises';
+import { createWriteStream, WriteStream } from 'fs';
+import { EventEmitter, once } from 'events';
 import path from 'path';
 import { CONFIG_DIR } from './config/setup';
 import L from './logger';
+import { config } from './config';
+import { BinaryReader, BinaryWriter, STORE_FORMAT_VERSION, STORE_MAGIC } from './store-codec';
+import { MarkovDataCustom } from './types';
 
 /**
  * Alias table entry for O(1) weighted sampling
@@ -24,10 +29,286 @@ interface PrefixEntry {
   prefix: string;
   /** Array of possible suffix words with weights */
   suffixes: Array<{ word: string; weight: number }>;
-  /** Alias table for optimized sampling */
+  /** Position of each suffix word in `suffixes` */
+  suffixIndex: Map<string, number>;
+  /**
+   * Alias table for optimized sampling. Dropped whenever the weights change and rebuilt on the
+   * next sample, so training doesn't pay for it on every word.
+   */
   aliasTable?: AliasEntry[];
   /** Total weight sum for normalization */
   totalWeight: number;
+  /** The last snapshot that wrote this entry, or skips it as newer than the snapshot */
+  snapshot?: number;
+}
+
+/**
+ * A single chain link as a `[prefix, suffix]` pair
+ */
+export type ChainLink = [prefix: string, suffix: string];
+
+/**
+ * Suffix marking the end of a sentence. Messages are split on whitespace, so it can never
+ * collide with a real word.
+ */
+export const SENTENCE_END = '\u0000';
+
+/**
+ * Provenance of one piece of training data, such as a Discord message
+ */
+interface InputEntry {
+  /** Tags identifying the source, e.g. the message, thread, channel and guild IDs */
+  tags: string[];
+  /**
+   * The chain links this input contributed, each with a weight of 1. When the last link ends
+   * with `SENTENCE_END`, the first link's prefix was also counted as a sentence start.
+   */
+  links: ChainLink[];
+  /** Extra data about the source, such as a message's attachments */
+  custom?: MarkovDataCustom;
+  /** The last snapshot that wrote this input, or skips it as newer than the snapshot */
+  snapshot?: number;
+}
+
+/**
+ * What a snapshot being written to disk needs to write the store as it was when the snapshot
+ * began, while the store keeps changing. Chains and inputs are written from the store itself;
+ * ones changed or removed before the snapshot gets to them are kept here as they were first.
+ */
+interface SnapshotCut {
+  id: number;
+  stateSize: number | null;
+  nextInputId: number;
+  starts: Map<string, number>;
+  chains: Array<Pick<PrefixEntry, 'prefix' | 'suffixes'>>;
+  inputs: Array<[number, InputEntry]>;
+  /** Set when the store is cleared, leaving nothing worth writing */
+  cleared: boolean;
+}
+
+/**
+ * A stored input as referenced by a generated sentence
+ */
+export interface InputRef {
+  id: number;
+  /** The input's text, rebuilt from its chain links */
+  string: string;
+  tags: string[];
+  custom?: MarkovDataCustom;
+}
+
+/**
+ * Controls how adventurous sampling is. With the defaults, each suffix is picked in proportion
+ * to how often it followed the prefix.
+ */
+export interface SamplingOptions {
+  /**
+   * Weights are raised to the power of `1 / temperature`: below 1 favours common words, above 1
+   * evens out the odds. Defaults to 1.
+   */
+  temperature?: number;
+  /** Only consider the k most frequent suffixes. 0, the default, considers all of them. */
+  topK?: number;
+  /**
+   * Only consider the most frequent suffixes that together make up this share of the
+   * probability. Defaults to 1, which considers all of them.
+   */
+  topP?: number;
+}
+
+/**
+ * Check if sampling options leave the trained weights untouched, so the alias tables apply
+ */
+function isDefaultSampling({ temperature = 1, topK = 0, topP = 1 }: SamplingOptions): boolean {
+  return temperature === 1 && topK <= 0 && topP >= 1;
+}
+
+/**
+ * Pick a word after reshaping the weights with temperature, top-k and top-p. Runs in
+ * O(n log n), so it's only used when the options differ from the defaults.
+ */
+function sampleWithOptions(
+  candidates: Array<{ word: string; weight: number }>,
+  { temperature = 1, topK = 0, topP = 1 }: SamplingOptions,
+): string {
+  let sorted = [...candidates].sort((a, b) => b.weight - a.weight);
+  if (topK > 0) sorted = sorted.slice(0, topK);
+
+  // Dividing by the largest weight first keeps small temperatures from overflowing
+  const exponent = 1 / Math.max(temperature, 0.01);
+  const maxWeight = sorted[0].weight;
+  const weights = sorted.map(({ weight }) => (weight / maxWeight) ** exponent);
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  let kept = weights.length;
+  if (topP < 1) {
+    let cumulative = 0;
+    for (let i = 0; i < weights.length; i++) {
+      cumulative += weights[i] / total;
+      if (cumulative >= topP) {
+        kept = i + 1;
+        break;
+      }
+    }
+  }
+
+  const keptTotal = weights.slice(0, kept).reduce((sum, weight) => sum + weight, 0);
+  let threshold = Math.random() * keptTotal;
+  for (let i = 0; i < kept - 1; i++) {
+    threshold -= weights[i];
+    if (threshold < 0) return sorted[i].word;
+  }
+  return sorted[kept - 1].word;
+}
+
+/**
+ * How generation found a prefix to start from:
+ * - `full`: the last `stateSize` words of the seed are a known prefix
+ * - `backoff`: a known prefix ends with the seed's last few words
+ * - `keyword`: a known prefix contains one of the seed's words
+ * - `unseeded`: no seed was given or nothing matched it, so a sentence start was used
+ */
+export type SeedStrategy = 'full' | 'backoff' | 'keyword' | 'unseeded';
+
+/**
+ * A generated sentence with markov-strings style scoring
+ */
+export interface GeneratedSentence {
+  words: string[];
+  /** Sum of the alternative suffixes at each step; higher means a more original sentence */
+  score: number;
+  /** IDs of the inputs that contributed any of the chosen links */
+  refs: number[];
+  strategy: SeedStrategy;
+}
+
+/**
+ * A mutation, as recorded in the write-ahead log (one JSON object per line) and sent to the
+ * replicas held by worker threads
+ */
+export type StoreOp =
+  | { op: 'addPrefix'; prefix: string; suffix: string; weight: number }
+  | { op: 'removePrefix'; prefix: string }
+  | { op: 'addInput'; id: number; links: ChainLink[]; tags: string[]; custom?: MarkovDataCustom }
+  | { op: 'removeTags'; tags: string[] }
+  | { op: 'clear' };
+
+/**
+ * Training data for `addMany`, as passed to `addInput`
+ */
+export interface StoreInput {
+  links: ChainLink[];
+  tags?: string[];
+  custom?: MarkovDataCustom;
+}
+
+/**
+ * Contents of a JSON store written before the binary format
+ */
+interface StoreFile {
+  version: 3;
+  /** Number of words in each prefix, or null while the store is empty */
+  stateSize: number | null;
+  chains: Record<string, Omit<PrefixEntry, 'suffixIndex'>>;
+  /** How often each prefix opened a sentence */
+  starts: Record<string, number>;
+  inputs: Array<[number, InputEntry]>;
+  nextInputId: number;
+}
+
+/**
+ * Options for a MarkovStore instance
+ */
+export interface MarkovStoreOptions {
+  /**
+   * Whether changes are written to disk. Replicas in worker threads don't persist; the main
+   * thread's store owns the files.
+   * @default true
+   */
+  persist?: boolean;
+}
+
+/**
+ * Emits `op` with `(guildId, op)` after every change to a store in this thread, and `evict`
+ * with `(guildId)` when a store leaves the cache
+ */
+export const storeEvents = new EventEmitter();
+
+/**
+ * Rough heap overheads used to estimate a store's memory footprint, on top of string contents
+ */
+const PREFIX_ENTRY_BYTES = 160;
+const INDEX_BYTES = 48;
+const SUFFIX_BYTES = 64;
+const INPUT_BYTES = 200;
+const LINK_BYTES = 120;
+
+function stringBytes(value: string): number {
+  return 16 + 2 * value.length;
+}
+
+function prefixBytes(prefix: string): number {
+  // Each prefix is indexed once per shorter ending and once per word
+  return PREFIX_ENTRY_BYTES + stringBytes(prefix) + INDEX_BYTES * (2 * countWords(prefix) - 1);
+}
+
+function suffixBytes(word: string): number {
+  return SUFFIX_BYTES + INDEX_BYTES + stringBytes(word);
+}
+
+function inputBytes(input: InputEntry): number {
+  let bytes = INPUT_BYTES;
+  for (const tag of input.tags) bytes += stringBytes(tag);
+  for (const [prefix, suffix] of input.links) {
+    bytes += LINK_BYTES + stringBytes(prefix) + stringBytes(suffix);
+  }
+  return bytes;
+}
+
+/**
+ * Reduce a word to the form keywords are matched on: lowercase, without surrounding punctuation
+ */
+export function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+}
+
+/**
+ * Count the words in a space-joined prefix
+ */
+function countWords(prefix: string): number {
+  let count = 1;
+  for (let i = 0; i < prefix.length; i++) {
+    if (prefix.charCodeAt(i) === 32) count++;
+  }
+  return count;
+}
+
+/**
+ * Split a message into the `stateSize`-word prefix and suffix links the store is built from.
+ * The last prefix links to `SENTENCE_END`, so messages shorter than `stateSize` words yield no links.
+ */
+export function buildChainLinks(text: string, stateSize: number): ChainLink[] {
+  const words = text.trim().split(/\s+/).filter(word => word.length > 0);
+  const links: ChainLink[] = [];
+  for (let i = 0; i + stateSize <= words.length; i++) {
+    const prefix = words.slice(i, i + stateSize).join(' ');
+    links.push([prefix, i + stateSize < words.length ? words[i + stateSize] : SENTENCE_END]);
+  }
+  return links;
+}
+
+/**
+ * Check if an input's links were built as a full sentence by `buildChainLinks`
+ */
+function isSentence(links: ChainLink[]): boolean {
+  return links.length > 0 && links[links.length - 1][1] === SENTENCE_END;
+}
+
+/**
+ * Key of a chain link in the link index. Words never contain whitespace.
+ */
+function linkKey(prefix: string, suffix: string): string {
+  return `${prefix}\n${suffix}`;
 }
 
 /**
@@ -37,61 +318,605 @@ interface PrefixEntry {
  * for constant-time weighted random sampling instead of O(n) weighted selection.
  */
 export class MarkovStore {
+  private guildId: string;
+  private readonly persist: boolean;
   private storePath: string;
+  private legacyStorePath: string;
+  private walStream: WriteStream | null = null;
+  /** Closing the previous WAL generation, which the next one waits for */
+  private walClosing: Promise<void> = Promise.resolve();
+  /** Ops are appended to the WAL file of this generation; snapshots start a new one */
+  private walGeneration = 0;
+  private replaying = false;
+  private corrupted = false;
+  private snapshotQueue: Promise<void> = Promise.resolve();
+  private snapshotCount = 0;
+  /** The state the snapshot being written began from */
+  private snapshotCut: SnapshotCut | null = null;
   private chains = new Map<string, PrefixEntry>();
+  /** Prefixes keyed by each of their shorter endings, e.g. "b c" and "c" for "a b c" */
+  private lowerOrderIndex = new Map<string, Set<string>>();
+  /** Prefixes keyed by each word they contain, normalized with `normalizeWord` */
+  private wordIndex = new Map<string, Set<string>>();
+  private starts = new Map<string, number>();
+  private startAliasTable: AliasEntry[] | null = null;
+  private inputs = new Map<number, InputEntry>();
+  private tagIndex = new Map<string, Set<number>>();
+  private linkIndex = new Map<string, Set<number>>();
+  private nextInputId = 1;
+  private stateSize: number | null = null;
   private dirty = false;
   private saveTimer: NodeJS.Timeout | null = null;
-  private readonly SAVE_DEBOUNCE_MS = 5000;
+  private readonly saveDebounceMs = config.chainSaveDebounceMs;
+  private memoryEstimate = 0;
+  /** Suffixes and link weight across all prefixes, kept up to date so stats are cheap */
+  private suffixCount = 0;
+  private totalWeight = 0;
 
-  constructor(guildId: string) {
-    this.storePath = path.join(CONFIG_DIR, `markov_${guildId}.json`);
+  constructor(guildId: string, options: MarkovStoreOptions = {}) {
+    this.guildId = guildId;
+    this.persist = options.persist ?? true;
+    this.storePath = path.join(CONFIG_DIR, `markov_${guildId}.bin`);
+    this.legacyStorePath = path.join(CONFIG_DIR, `markov_${guildId}.json`);
   }
 
   /**
-   * Load chains from serialized storage
+   * Load chains from serialized storage and replay the write-ahead log, upgrading a JSON store
+   * to the binary format. A store that can't be read is left untouched on disk.
    */
   async load(): Promise<void> {
     try {
-      const data = await fs.readFile(this.storePath, 'utf-8');
-      const parsed = JSON.parse(data) as Record<string, PrefixEntry>;
+      try {
+        this.walGeneration = await this.readBinary();
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+        try {
+          await this.upgradeLegacyStore();
+        } catch (legacyErr) {
+          if ((legacyErr as NodeJS.ErrnoException).code !== 'ENOENT') throw legacyErr;
+          this.reset();
+          L.info('No existing chain store found, starting fresh');
+        }
+      }
+      this.recount();
+
+      // Replayed ops stay in the WAL until the next change triggers a snapshot
+      const replayed = await this.replayWal();
+      this.dirty = false;
+
+      L.info(
+        {
+          chainCount: this.chains.size,
+          inputCount: this.inputs.size,
+          stateSize: this.stateSize,
+          replayed,
+        },
+        'Loaded Markov chains from store',
+      );
+    } catch (err) {
+      this.reset();
+      this.corrupted = true;
+      L.error(
+        { err, storePath: this.storePath },
+        'Markov store is corrupted and will not be overwritten. Move it aside to start fresh.',
+      );
+    }
+  }
+
+  /**
+   * Recompute the memory estimate and chain totals from scratch, e.g. after loading
+   */
+  private recount(): void {
+    let bytes = 0;
+    let suffixCount = 0;
+    let totalWeight = 0;
+    for (const entry of this.chains.values()) {
+      bytes += prefixBytes(entry.prefix);
+      for (const suffix of entry.suffixes) bytes += suffixBytes(suffix.word);
+      suffixCount += entry.suffixes.length;
+      totalWeight += entry.totalWeight;
+    }
+    for (const input of this.inputs.values()) bytes += inputBytes(input);
+    this.memoryEstimate = bytes;
+    this.suffixCount = suffixCount;
+    this.totalWeight = totalWeight;
+  }
+
+  /**
+   * Approximate heap used by this store in bytes, kept up to date as it changes
+   */
+  getMemoryEstimate(): number {
+    return this.memoryEstimate;
+  }
+
+  /**
+   * Whether the store failed to load and refuses to persist changes
+   */
+  isCorrupted(): boolean {
+    return this.corrupted;
+  }
+
+  private walPath(generation: number): string {
+    return path.join(CONFIG_DIR, `markov_${this.guildId}.${generation}.wal`);
+  }
+
+  /**
+   * List this store's WAL generations in order
+   */
+  private async listWalGenerations(): Promise<number[]> {
+    const pattern = new RegExp(`^markov_${this.guildId}\\.(\\d+)\\.wal$`);
+    const files = await fs.readdir(CONFIG_DIR);
+    return files
+      .map(file => pattern.exec(file))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map(match => Number(match[1]))
+      .sort((a, b) => a - b);
+  }
+
+  /**
+   * Reapply the ops logged since the last snapshot
+   * @returns The number of ops replayed
+   */
+  private async replayWal(): Promise<number> {
+    const generations = (await this.listWalGenerations()).filter(g => g >= this.walGeneration);
+    let replayed = 0;
+
+    this.replaying = true;
+    try {
+      for (const [fileIndex, generation] of generations.entries()) {
+        const lines = (await fs.readFile(this.walPath(generation), 'utf-8')).split('\n');
+        for (const [lineIndex, line] of lines.entries()) {
+          if (!line) continue;
+          let op: StoreOp;
+          try {
+            op = JSON.parse(line) as StoreOp;
+          } catch (err) {
+            // Only the very last write can be torn by a crash
+            const isLastLine = fileIndex === generations.length - 1 && lineIndex >= lines.length - 2;
+            if (!isLastLine) throw err;
+            L.warn({ generation }, 'Ignoring incomplete last entry in Markov store WAL');
+            break;
+          }
+          this.applyOpUnlogged(op);
+          replayed++;
+        }
+        this.walGeneration = generation;
+      }
+    } finally {
+      this.replaying = false;
+    }
+    return replayed;
+  }
+
+  /**
+   * Apply a change made to another copy of this store, without logging or announcing it
+   */
+  applyOp(op: StoreOp): void {
+    const { replaying } = this;
+    this.replaying = true;
+    try {
+      this.applyOpUnlogged(op);
+    } finally {
+      this.replaying = replaying;
+    }
+  }
+
+  private applyOpUnlogged(op: StoreOp): void {
+    switch (op.op) {
+      case 'addPrefix':
+        this.addPrefix(op.prefix, op.suffix, op.weight);
+        break;
+      case 'removePrefix':
+        this.removePrefix(op.prefix);
+        break;
+      case 'addInput':
+        this.applyInput(op.id, op.links, op.tags, op.custom);
+        this.dirty = true;
+        break;
+      case 'removeTags':
+        this.removeTags(op.tags);
+        break;
+      case 'clear':
+        this.clear();
+        break;
+      default:
+        throw new Error(`Unknown WAL op ${(op as { op: string }).op}`);
+    }
+  }
+
+  /**
+   * Append an op to the write-ahead log once it has been applied in memory.
+   *
+   * Writes are buffered, and a generation is only synced to disk when it's closed, so a crash
+   * can lose the ops logged since. A new generation isn't written to until the one before it is
+   * synced, so a crash can't keep later ops while losing earlier ones from another generation.
+   */
+  private log(op: StoreOp): void {
+    if (this.replaying) return;
+    storeEvents.emit('op', this.guildId, op);
+    if (!this.persist || this.corrupted) return;
+    if (!this.walStream) {
+      const stream = createWriteStream(this.walPath(this.walGeneration), { flags: 'a' });
+      stream.on('error', err => L.error({ err }, 'Error writing Markov store WAL'));
+      stream.cork();
+      this.walClosing.then(() => stream.uncork());
+      this.walStream = stream;
+    }
+    this.walStream.write(`${JSON.stringify(op)}\n`);
+  }
+
+  /**
+   * Close the current WAL generation once its ops are synced to disk
+   */
+  private closeWal(): Promise<void> {
+    const stream = this.walStream;
+    if (!stream) return this.walClosing;
+    this.walStream = null;
+    this.walClosing = (async () => {
+      stream.end();
+      if (!stream.closed) await once(stream, 'close');
+      const file = await fs.open(stream.path, 'r');
+      try {
+        await file.sync();
+      } finally {
+        await file.close();
+      }
+    })().catch(err => L.error({ err }, 'Error syncing Markov store WAL'));
+    return this.walClosing;
+  }
+
+  /**
+   * Read a binary store file. Alias tables aren't stored; they're rebuilt when first sampled.
+   * @returns The first WAL generation that isn't part of the snapshot
+   */
+  private async readBinary(): Promise<number> {
+    const reader = new BinaryReader(this.storePath);
+    try {
+      return await this.readSnapshot(reader);
+    } finally {
+      await reader.close();
+    }
+  }
+
+  /**
+   * Replace the store's contents with a snapshot from `encodeSnapshot`, e.g. in a worker thread
+   */
+  async loadSnapshot(snapshot: Buffer): Promise<void> {
+    await this.readSnapshot(new BinaryReader(snapshot));
+    this.recount();
+  }
+
+  private async readSnapshot(reader: BinaryReader): Promise<number> {
+    const magic = await reader.readBytes(STORE_MAGIC.length);
+    if (!magic.equals(STORE_MAGIC)) throw new Error('Not a MarkovStore file');
+    const version = await reader.readVarint();
+    if (version < 1 || version > STORE_FORMAT_VERSION) {
+      throw new Error(`Unsupported MarkovStore format version ${version}`);
+    }
+    // Version 1 snapshots predate the WAL
+    const walGeneration = version >= 2 ? await reader.readVarint() : 0;
+
+    this.reset();
+    const stateSize = await reader.readVarint();
+    this.stateSize = stateSize || null;
+    this.nextInputId = await reader.readVarint();
+
+    const readPrefix = async (): Promise<string> => {
+      const words: string[] = [];
+      for (let i = 0; i < stateSize; i++) words.push(await reader.readWord());
+      return words.join(' ');
+    };
+
+    // Each section is a list of records, each preceded by a 1 and ended by a 0
+    while (await reader.readVarint()) {
+      const prefix = await readPrefix();
+      const suffixCount = await reader.readVarint();
+      const entry: PrefixEntry = { prefix, suffixes: [], suffixIndex: new Map(), totalWeight: 0 };
+      for (let i = 0; i < suffixCount; i++) {
+        const word = await reader.readWord();
+        const weight = await reader.readVarint();
+        entry.suffixIndex.set(word, entry.suffixes.length);
+        entry.suffixes.push({ word, weight });
+        entry.totalWeight += weight;
+      }
+      this.chains.set(prefix, entry);
+      this.indexPrefix(prefix);
+    }
+
+    while (await reader.readVarint()) {
+      const prefix = await readPrefix();
+      this.starts.set(prefix, await reader.readVarint());
+    }
 
-      this.chains.clear();
-      for (const [key, value] of Object.entries(parsed)) {
-        this.chains.set(key, value);
+    while (await reader.readVarint()) {
+      const inputId = await reader.readVarint();
+      const tags: string[] = [];
+      const tagCount = await reader.readVarint();
+      for (let i = 0; i < tagCount; i++) tags.push(await reader.readWord());
+      const links: ChainLink[] = [];
+      const linkCount = await reader.readVarint();
+      for (let i = 0; i < linkCount; i++) {
+        links.push([await readPrefix(), await reader.readWord()]);
       }
+      const input: InputEntry = { tags, links };
+      if (await reader.readVarint()) {
+        input.custom = JSON.parse(await reader.readString()) as MarkovDataCustom;
+      }
+      this.inputs.set(inputId, input);
+      this.indexTags(inputId, tags);
+      this.indexLinks(inputId, links);
+    }
+
+    if (!(await reader.atEnd())) throw new Error('Unexpected data after end of store file');
+    return walGeneration;
+  }
+
+  /**
+   * Load a `markov_<guildId>.json` store and rewrite it in the binary format
+   */
+  private async upgradeLegacyStore(): Promise<void> {
+    const data = await fs.readFile(this.legacyStorePath, 'utf-8');
+    const parsed = JSON.parse(data) as StoreFile | StoreFile['chains'];
+    const { version } = parsed as { version?: number };
+
+    // Stores written before provenance tracking are a bare map of chains, and version 2
+    // stores predate sentence start tracking
+    const file: StoreFile =
+      version === 2 || version === 3
+        ? { ...(parsed as StoreFile), version: 3, starts: (parsed as StoreFile).starts ?? {} }
+        : {
+            version: 3,
+            stateSize: null,
+            chains: parsed as StoreFile['chains'],
+            starts: {},
+            inputs: [],
+            nextInputId: 1,
+          };
+
+    this.reset();
+    for (const [key, value] of Object.entries(file.chains)) {
+      // Alias tables are rebuilt lazily rather than trusted from disk
+      const { prefix, suffixes, totalWeight } = value;
+      const suffixIndex = new Map(suffixes.map(({ word }, i) => [word, i]));
+      this.chains.set(key, { prefix, suffixes, suffixIndex, totalWeight });
+      this.indexPrefix(key);
+    }
+    this.starts = new Map(Object.entries(file.starts));
+    for (const [id, input] of file.inputs) {
+      this.inputs.set(id, input);
+      this.indexTags(id, input.tags);
+      this.indexLinks(id, input.links);
+    }
+    this.nextInputId = file.nextInputId;
+
+    // Older stores didn't record their state size, so infer it from a prefix
+    const firstPrefix = this.chains.keys().next();
+    this.stateSize = file.stateSize ?? (firstPrefix.done ? null : countWords(firstPrefix.value));
+
+    await this.writeSnapshot();
+    await fs.unlink(this.legacyStorePath);
+    L.info({ storePath: this.storePath }, 'Upgraded JSON Markov store to the binary format');
+  }
 
-      L.info({ chainCount: this.chains.size }, 'Loaded Markov chains from store');
+  /**
+   * Write the store to disk in the binary format, then drop the WAL generations it covers.
+   * Snapshots are queued so two never write the temp file at once.
+   */
+  private writeSnapshot(): Promise<void> {
+    const run = this.snapshotQueue.then(() => this.writeSnapshotNow());
+    this.snapshotQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async writeSnapshotNow(): Promise<void> {
+    if (this.corrupted) throw new Error(`Refusing to overwrite corrupted store ${this.storePath}`);
+
+    // The snapshot is cut at the same moment as the WAL: every op from here on goes to the next
+    // generation, which load replays on top of the snapshot. It's written a chunk at a time so
+    // other work carries on meanwhile, and the cut keeps those changes out of it.
+    const generation = this.walGeneration + 1;
+    const closingWal = this.closeWal();
+    this.walGeneration = generation;
+    this.snapshotCount += 1;
+    const cut: SnapshotCut = {
+      id: this.snapshotCount,
+      stateSize: this.stateSize,
+      nextInputId: this.nextInputId,
+      starts: new Map(this.starts),
+      chains: [],
+      inputs: [],
+      cleared: false,
+    };
+    this.snapshotCut = cut;
+
+    const tempPath = `${this.storePath}.tmp`;
+    let writer: BinaryWriter | null = null;
+    try {
+      writer = await BinaryWriter.open(tempPath);
+      const records = this.encode(writer, generation, cut);
+      while (!cut.cleared && !records.next().done) {
+        // eslint-disable-next-line no-await-in-loop
+        if (writer.hasFullChunk()) await writer.drain();
+      }
+      if (cut.cleared) {
+        // The cleared store is saved again, and the WAL keeps everything until then
+        await writer.destroy();
+        await fs.unlink(tempPath);
+        await closingWal;
+        return;
+      }
+      // Synced to disk before the rename, so the snapshot replacing the old one is complete
+      await writer.end();
     } catch (err) {
-      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
-        L.info('No existing chain store found, starting fresh');
+      await writer?.destroy();
+      throw err;
+    } finally {
+      this.snapshotCut = null;
+    }
+
+    // Rename is atomic, so a crash leaves either the old or the new snapshot in place
+    await fs.rename(tempPath, this.storePath);
+    await closingWal;
+    const covered = (await this.listWalGenerations()).filter(g => g < generation);
+    await Promise.all(covered.map(g => fs.unlink(this.walPath(g))));
+  }
+
+  /**
+   * Encode the store's current contents in memory, e.g. to send to a worker thread
+   */
+  encodeSnapshot(): Buffer {
+    const writer = new BinaryWriter();
+    const records = this.encode(writer, 0);
+    for (let record = records.next(); !record.done; record = records.next());
+    return writer.toBuffer();
+  }
+
+  /**
+   * Encode the store a record at a time, pausing after each so the caller can write out the
+   * chunks encoded so far. Given a cut, the store is encoded as it was when the cut was made.
+   */
+  private *encode(writer: BinaryWriter, generation: number, cut?: SnapshotCut): Generator<void> {
+    const stateSize = (cut ? cut.stateSize : this.stateSize) ?? 0;
+    writer.writeBytes(STORE_MAGIC);
+    writer.writeVarint(STORE_FORMAT_VERSION);
+    writer.writeVarint(generation);
+    writer.writeVarint(stateSize);
+    writer.writeVarint(cut ? cut.nextInputId : this.nextInputId);
+
+    const writePrefix = (prefix: string): void => {
+      prefix.split(' ').forEach(word => writer.writeWord(word));
+    };
+    const writeChain = ({ prefix, suffixes }: Pick<PrefixEntry, 'prefix' | 'suffixes'>): void => {
+      writer.writeVarint(1);
+      writePrefix(prefix);
+      writer.writeVarint(suffixes.length);
+      for (const suffix of suffixes) {
+        writer.writeWord(suffix.word);
+        writer.writeVarint(suffix.weight);
+      }
+    };
+    const writeInput = (inputId: number, input: InputEntry): void => {
+      writer.writeVarint(1);
+      writer.writeVarint(inputId);
+      writer.writeVarint(input.tags.length);
+      input.tags.forEach(tag => writer.writeWord(tag));
+      writer.writeVarint(input.links.length);
+      for (const [prefix, suffix] of input.links) {
+        writePrefix(prefix);
+        writer.writeWord(suffix);
+      }
+      if (input.custom) {
+        writer.writeVarint(1);
+        writer.writeString(JSON.stringify(input.custom));
       } else {
-        L.error({ err }, 'Error loading Markov store');
+        writer.writeVarint(0);
+      }
+    };
+
+    // Each section is a list of records, each preceded by a 1 and ended by a 0. Marking what
+    // the cut has written tells changes to keep a copy of anything it hasn't reached yet.
+    for (const entry of this.chains.values()) {
+      if (cut) {
+        if (entry.snapshot === cut.id) continue;
+        entry.snapshot = cut.id;
+      }
+      writeChain(entry);
+      yield;
+    }
+    for (const entry of cut?.chains ?? []) {
+      writeChain(entry);
+      yield;
+    }
+    writer.writeVarint(0);
+
+    for (const [prefix, weight] of cut ? cut.starts : this.starts) {
+      writer.writeVarint(1);
+      writePrefix(prefix);
+      writer.writeVarint(weight);
+      yield;
+    }
+    writer.writeVarint(0);
+
+    for (const [inputId, input] of this.inputs) {
+      if (cut) {
+        if (input.snapshot === cut.id) continue;
+        input.snapshot = cut.id;
       }
+      writeInput(inputId, input);
+      yield;
     }
+    for (const [inputId, input] of cut?.inputs ?? []) {
+      writeInput(inputId, input);
+      yield;
+    }
+    writer.writeVarint(0);
+  }
+
+  /**
+   * Keep a chain as it was for the snapshot being written, before it changes or is removed
+   */
+  private preserveChain(entry: PrefixEntry): void {
+    const cut = this.snapshotCut;
+    if (!cut || entry.snapshot === cut.id) return;
+    cut.chains.push({ prefix: entry.prefix, suffixes: entry.suffixes.map(s => ({ ...s })) });
+    entry.snapshot = cut.id;
+  }
+
+  /**
+   * Keep an input for the snapshot being written, before it's removed. Inputs never change.
+   */
+  private preserveInput(inputId: number, input: InputEntry): void {
+    const cut = this.snapshotCut;
+    if (!cut || input.snapshot === cut.id) return;
+    cut.inputs.push([inputId, input]);
+    input.snapshot = cut.id;
   }
 
   /**
    * Save chains to serialized storage with debouncing
    */
-public async save(): Promise<void> {
-    if (!this.dirty) return;
+  public async save(): Promise<void> {
+    if (!this.dirty || !this.persist || this.corrupted || this.replaying) return;
 
-    try {
-      // Cancel existing timer
-      if (this.saveTimer) {
-        clearTimeout(this.saveTimer);
-      }
+    // Cancel existing timer
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+    }
 
-      // Debounce saves
-      this.saveTimer = setTimeout(async () => {
-        const data = Object.fromEntries(this.chains);
-        await fs.writeFile(this.storePath, JSON.stringify(data, null, 0));
-        this.dirty = false;
+    // Debounce saves
+    this.saveTimer = setTimeout(async () => {
+      this.saveTimer = null;
+      // Changes made while writing mark the store dirty again
+      this.dirty = false;
+      try {
+        await this.writeSnapshot();
         L.trace({ chainCount: this.chains.size }, 'Saved Markov chains to store');
-      }, this.SAVE_DEBOUNCE_MS);
-    } catch (err) {
-      L.error({ err }, 'Error saving Markov store');
+      } catch (err) {
+        this.dirty = true;
+        L.error({ err }, 'Error saving Markov store');
+      }
+    }, this.saveDebounceMs);
+  }
+
+  /**
+   * Write any pending changes to disk immediately and close the WAL, e.g. before exiting
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
     }
+    if (this.dirty && this.persist && !this.corrupted) {
+      this.dirty = false;
+      try {
+        await this.writeSnapshot();
+      } catch (err) {
+        this.dirty = true;
+        throw err;
+      }
+    }
+    await this.snapshotQueue;
+    await this.closeWal();
   }
 
   /**
@@ -169,88 +994,504 @@ public async save(): Promise<void> {
     return coinToss < entry.weight ? entry.word : aliasTable[entry.alias].word;
   }
 
+  /**
+   * The number of words in each prefix, or null while the store is empty
+   */
+  getStateSize(): number | null {
+    return this.stateSize;
+  }
+
+  /**
+   * Check if data built with the given state size can be added without mixing state sizes
+   */
+  isCompatibleStateSize(stateSize: number): boolean {
+    return this.stateSize === null || this.stateSize === stateSize;
+  }
+
   /**
    * Add or update a prefix entry
+   * @throws If the prefix's word count differs from the store's state size
    */
   addPrefix(prefix: string, suffix: string, weight = 1): void {
+    this.incrementSuffix(prefix, suffix, weight);
+    this.log({ op: 'addPrefix', prefix, suffix, weight });
+    this.dirty = true;
+    this.save(); // Trigger debounced save
+  }
+
+  /**
+   * Increase the weight of a prefix's suffix, adding either as needed
+   * @throws If the prefix's word count differs from the store's state size
+   */
+  private incrementSuffix(prefix: string, suffix: string, weight: number): void {
+    const prefixSize = countWords(prefix);
+    if (this.stateSize === null) {
+      this.stateSize = prefixSize;
+    } else if (prefixSize !== this.stateSize) {
+      throw new Error(
+        `Cannot add a ${prefixSize}-word prefix to a store with a state size of ${this.stateSize}`,
+      );
+    }
+
     let entry = this.chains.get(prefix);
 
     if (!entry) {
       entry = {
         prefix,
         suffixes: [],
-        totalWeight: 0
+        suffixIndex: new Map(),
+        totalWeight: 0,
+        // Newer than the snapshot being written, if any
+        snapshot: this.snapshotCut?.id,
       };
       this.chains.set(prefix, entry);
+      this.indexPrefix(prefix);
+      this.memoryEstimate += prefixBytes(prefix);
+    } else {
+      this.preserveChain(entry);
     }
 
-    // Find existing suffix or add new one
-    const existingSuffix = entry.suffixes.find(s => s.word === suffix);
-    if (existingSuffix) {
-      existingSuffix.weight += weight;
+    const index = entry.suffixIndex.get(suffix);
+    if (index !== undefined) {
+      entry.suffixes[index].weight += weight;
     } else {
+      entry.suffixIndex.set(suffix, entry.suffixes.length);
       entry.suffixes.push({ word: suffix, weight });
+      this.memoryEstimate += suffixBytes(suffix);
+      this.suffixCount++;
     }
 
     entry.totalWeight += weight;
+    this.totalWeight += weight;
+    delete entry.aliasTable;
+  }
 
-    // Rebuild alias table for optimization
-    if (entry.suffixes.length > 1) {
-      entry.aliasTable = this.buildAliasTable(entry.suffixes);
+  /**
+   * Decrease the weight of a prefix's suffix, dropping the suffix and then the prefix once empty
+   */
+  private decrementSuffix(prefix: string, suffix: string, weight = 1): void {
+    const entry = this.chains.get(prefix);
+    if (!entry) return;
+
+    const index = entry.suffixIndex.get(suffix);
+    if (index === undefined) return;
+
+    this.preserveChain(entry);
+    const existingSuffix = entry.suffixes[index];
+    const removedWeight = Math.min(weight, existingSuffix.weight);
+    existingSuffix.weight -= removedWeight;
+    entry.totalWeight -= removedWeight;
+    this.totalWeight -= removedWeight;
+    delete entry.aliasTable;
+    if (existingSuffix.weight <= 0) {
+      // Move the last suffix into the gap so the other positions stay valid
+      const last = entry.suffixes.pop()!;
+      if (last !== existingSuffix) {
+        entry.suffixes[index] = last;
+        entry.suffixIndex.set(last.word, index);
+      }
+      entry.suffixIndex.delete(suffix);
+      this.memoryEstimate -= suffixBytes(suffix);
+      this.suffixCount--;
     }
 
-    this.dirty = true;
-    this.save(); // Trigger debounced save
+    if (entry.suffixes.length === 0) {
+      this.chains.delete(prefix);
+      this.unindexPrefix(prefix);
+      this.memoryEstimate -= prefixBytes(prefix);
+      if (this.chains.size === 0) this.stateSize = null;
+    }
+  }
+
+  /**
+   * Adjust how often a prefix opened a sentence, dropping it once it no longer has any weight
+   */
+  private adjustStart(prefix: string, delta: number): void {
+    const weight = (this.starts.get(prefix) ?? 0) + delta;
+    if (weight > 0) {
+      this.starts.set(prefix, weight);
+    } else {
+      this.starts.delete(prefix);
+    }
+    // Rebuilt lazily on the next unseeded generation
+    this.startAliasTable = null;
+  }
+
+  private indexTags(inputId: number, tags: string[]): void {
+    for (const tag of tags) {
+      let ids = this.tagIndex.get(tag);
+      if (!ids) {
+        ids = new Set();
+        this.tagIndex.set(tag, ids);
+      }
+      ids.add(inputId);
+    }
+  }
+
+  private unindexTags(inputId: number, tags: string[]): void {
+    for (const tag of tags) {
+      const ids = this.tagIndex.get(tag);
+      if (!ids) continue;
+      ids.delete(inputId);
+      if (ids.size === 0) this.tagIndex.delete(tag);
+    }
+  }
+
+  private indexLinks(inputId: number, links: ChainLink[]): void {
+    for (const [prefix, suffix] of links) {
+      const key = linkKey(prefix, suffix);
+      let ids = this.linkIndex.get(key);
+      if (!ids) {
+        ids = new Set();
+        this.linkIndex.set(key, ids);
+      }
+      ids.add(inputId);
+    }
+  }
+
+  private unindexLinks(inputId: number, links: ChainLink[]): void {
+    for (const [prefix, suffix] of links) {
+      const key = linkKey(prefix, suffix);
+      const ids = this.linkIndex.get(key);
+      if (!ids) continue;
+      ids.delete(inputId);
+      if (ids.size === 0) this.linkIndex.delete(key);
+    }
+  }
+
+  /**
+   * The shorter endings of a prefix that generation can back off to
+   */
+  private static lowerOrderKeys(prefix: string): string[] {
+    const words = prefix.split(' ');
+    const keys: string[] = [];
+    for (let i = 1; i < words.length; i++) keys.push(words.slice(i).join(' '));
+    return keys;
+  }
+
+  private indexPrefix(prefix: string): void {
+    const add = (index: Map<string, Set<string>>, key: string): void => {
+      let prefixes = index.get(key);
+      if (!prefixes) {
+        prefixes = new Set();
+        index.set(key, prefixes);
+      }
+      prefixes.add(prefix);
+    };
+    MarkovStore.lowerOrderKeys(prefix).forEach(key => add(this.lowerOrderIndex, key));
+    prefix
+      .split(' ')
+      .map(normalizeWord)
+      .filter(word => word.length > 0)
+      .forEach(word => add(this.wordIndex, word));
+  }
+
+  private unindexPrefix(prefix: string): void {
+    const remove = (index: Map<string, Set<string>>, key: string): void => {
+      const prefixes = index.get(key);
+      if (!prefixes) return;
+      prefixes.delete(prefix);
+      if (prefixes.size === 0) index.delete(key);
+    };
+    MarkovStore.lowerOrderKeys(prefix).forEach(key => remove(this.lowerOrderIndex, key));
+    prefix.split(' ').forEach(word => remove(this.wordIndex, normalizeWord(word)));
+  }
+
+  /**
+   * Pick one of the prefixes under a key of an index, weighted by how often they occur
+   */
+  private pickIndexedPrefix(index: Map<string, Set<string>>, key: string): string | null {
+    const prefixes = index.get(key);
+    if (!prefixes) return null;
+    return sampleWithOptions(
+      Array.from(prefixes, prefix => ({
+        word: prefix,
+        weight: this.chains.get(prefix)!.totalWeight,
+      })),
+      {},
+    );
+  }
+
+  /**
+   * Add the chain links of one piece of training data, remembering where they came from
+   * so they can later be removed with `removeTags`. Links built by `buildChainLinks` also
+   * record their first prefix as a sentence start.
+   * @returns The internal ID of the stored input
+   */
+  addInput(links: ChainLink[], tags: string[] = [], custom?: MarkovDataCustom): number {
+    return this.addMany([{ links, tags, custom }])[0];
+  }
+
+  /**
+   * Add many pieces of training data like `addInput`, but schedule a single save for all of them
+   * @returns The internal IDs of the stored inputs, in order
+   * @throws If the inputs' prefixes differ in word count from each other or from the store's
+   * state size. Nothing is added in that case.
+   */
+  addMany(inputs: StoreInput[]): number[] {
+    // Validate up front so a mismatched input isn't partially added
+    let { stateSize } = this;
+    for (const { links } of inputs) {
+      if (links.length === 0) continue;
+      const prefixSize = countWords(links[0][0]);
+      if (stateSize === null) stateSize = prefixSize;
+      if (prefixSize !== stateSize) {
+        throw new Error(
+          `Cannot add ${prefixSize}-word prefixes to a store with a state size of ${stateSize}`,
+        );
+      }
+    }
+
+    const inputIds = inputs.map(({ links, tags = [], custom }) => {
+      const inputId = this.nextInputId;
+      this.applyInput(inputId, links, tags, custom);
+      this.log({ op: 'addInput', id: inputId, links, tags, custom });
+      return inputId;
+    });
+    if (inputIds.length > 0) {
+      this.dirty = true;
+      this.save();
+    }
+    return inputIds;
+  }
+
+  private applyInput(
+    inputId: number,
+    links: ChainLink[],
+    tags: string[],
+    custom?: MarkovDataCustom,
+  ): void {
+    this.nextInputId = Math.max(this.nextInputId, inputId + 1);
+
+    for (const [prefix, suffix] of links) {
+      this.incrementSuffix(prefix, suffix, 1);
+    }
+    if (isSentence(links)) this.adjustStart(links[0][0], 1);
+
+    const input: InputEntry = custom ? { tags, links, custom } : { tags, links };
+    // Newer than the snapshot being written, if any
+    if (this.snapshotCut) input.snapshot = this.snapshotCut.id;
+    this.inputs.set(inputId, input);
+    this.memoryEstimate += inputBytes(input);
+    this.indexTags(inputId, tags);
+    this.indexLinks(inputId, links);
+  }
+
+  /**
+   * Remove every input carrying any of the given tags, decrementing exactly the weights they
+   * contributed. Mirrors `removeTags` in markov-strings-db.
+   * @returns The number of inputs removed
+   */
+  removeTags(tags: string[]): number {
+    const inputIds = new Set<number>();
+    for (const tag of tags) {
+      this.tagIndex.get(tag)?.forEach((id) => inputIds.add(id));
+    }
+
+    for (const inputId of inputIds) {
+      const input = this.inputs.get(inputId);
+      if (!input) continue;
+      for (const [prefix, suffix] of input.links) {
+        this.decrementSuffix(prefix, suffix);
+      }
+      if (isSentence(input.links)) this.adjustStart(input.links[0][0], -1);
+      this.preserveInput(inputId, input);
+      this.unindexTags(inputId, input.tags);
+      this.unindexLinks(inputId, input.links);
+      this.inputs.delete(inputId);
+      this.memoryEstimate -= inputBytes(input);
+    }
+
+    if (inputIds.size > 0) {
+      this.log({ op: 'removeTags', tags });
+      this.dirty = true;
+      this.save();
+    }
+    return inputIds.size;
+  }
+
+  /**
+   * Look up a stored input, rebuilding its text from its chain links
+   */
+  getInputRef(inputId: number): InputRef | null {
+    const input = this.inputs.get(inputId);
+    if (!input || input.links.length === 0) return null;
+
+    const words = input.links[0][0].split(' ');
+    for (const [, suffix] of input.links) {
+      if (suffix !== SENTENCE_END) words.push(suffix);
+    }
+    return { id: inputId, string: words.join(' '), tags: input.tags, custom: input.custom };
+  }
+
+  /**
+   * Get every stored input, oldest first
+   */
+  getInputRefs(): InputRef[] {
+    return Array.from(this.inputs.keys(), inputId => this.getInputRef(inputId)).filter(
+      (ref): ref is InputRef => ref !== null,
+    );
   }
 
   /**
-   * Get next word for a prefix using alias method (O(1))
+   * Pick a stored input uniformly at random
    */
-  getNext(prefix: string): string | null {
+  getRandomInputRef(): InputRef | null {
+    let index = Math.floor(Math.random() * this.inputs.size);
+    for (const inputId of this.inputs.keys()) {
+      if (index === 0) return this.getInputRef(inputId);
+      index--;
+    }
+    return null;
+  }
+
+  /**
+   * Get next word for a prefix using alias method (O(1)), or by reshaping the weights when
+   * sampling options are given
+   */
+  getNext(prefix: string, options: SamplingOptions = {}): string | null {
     const entry = this.chains.get(prefix);
     if (!entry || entry.suffixes.length === 0) {
       return null;
     }
+    if (entry.suffixes.length === 1) {
+      return entry.suffixes[0].word;
+    }
+    if (!isDefaultSampling(options)) {
+      return sampleWithOptions(entry.suffixes, options);
+    }
 
-    // Use alias table for O(1) sampling if available
-    if (entry.aliasTable) {
-      return this.sampleFromAliasTable(entry.aliasTable);
+    // Alias tables aren't persisted or kept up to date while training, so build them on demand
+    if (!entry.aliasTable) {
+      entry.aliasTable = this.buildAliasTable(entry.suffixes);
+    }
+    return this.sampleFromAliasTable(entry.aliasTable);
+  }
+
+  /**
+   * Pick a prefix that opened a sentence, weighted by how often it did
+   */
+  getStart(options: SamplingOptions = {}): string | null {
+    if (this.starts.size === 0) return null;
+    if (!isDefaultSampling(options)) {
+      return sampleWithOptions(
+        Array.from(this.starts, ([word, weight]) => ({ word, weight })),
+        options,
+      );
+    }
+    if (!this.startAliasTable) {
+      this.startAliasTable = this.buildAliasTable(
+        Array.from(this.starts, ([word, weight]) => ({ word, weight })),
+      );
     }
+    return this.sampleFromAliasTable(this.startAliasTable);
+  }
 
-    // Fallback to weighted random selection
-    const totalWeight = entry.totalWeight;
-    let random = Math.random() * totalWeight;
+  /**
+   * Generate a sequence of words from a starting prefix, stopping at the end of a sentence.
+   * Without a prefix, generation begins from a prefix that opened a training sentence.
+   */
+  generate(prefix = '', maxLength = 50, options: SamplingOptions = {}): string[] {
+    return this.sample(prefix, maxLength, options).words;
+  }
 
-    for (const suffix of entry.suffixes) {
-      random -= suffix.weight;
-      if (random <= 0) {
-        return suffix.word;
+  /**
+   * How many prefixes contain a word, ignoring case and surrounding punctuation. Rare words
+   * make better keywords.
+   */
+  getWordFrequency(word: string): number {
+    return this.wordIndex.get(normalizeWord(word))?.size ?? 0;
+  }
+
+  /**
+   * Find where to start generating from a seed, backing off from the full prefix to shorter
+   * endings of the seed, then to any of its words, then to a sentence start
+   * @returns The words the sentence begins with and the prefix to continue from
+   */
+  private resolveSeed(
+    seed: string[],
+    options: SamplingOptions,
+  ): { words: string[]; prefix: string | null; strategy: SeedStrategy } {
+    const stateSize = this.stateSize ?? 0;
+    if (seed.length > 0 && stateSize > 0) {
+      // Only the last stateSize words of a longer seed form the prefix
+      if (seed.length >= stateSize) {
+        const prefix = seed.slice(-stateSize).join(' ');
+        if (this.chains.has(prefix)) return { words: seed, prefix, strategy: 'full' };
+      }
+
+      // Continue the seed from a prefix sharing its ending
+      for (let order = Math.min(seed.length, stateSize - 1); order > 0; order--) {
+        const prefix = this.pickIndexedPrefix(this.lowerOrderIndex, seed.slice(-order).join(' '));
+        if (prefix) return { words: seed, prefix, strategy: 'backoff' };
+      }
+
+      // Start over from a prefix containing the rarest of the seed's words
+      const keyword = seed
+        .filter(word => this.getWordFrequency(word) > 0)
+        .reduce<string | null>(
+          (rarest, word) =>
+            rarest === null || this.getWordFrequency(word) < this.getWordFrequency(rarest)
+              ? word
+              : rarest,
+          null,
+        );
+      if (keyword !== null) {
+        const prefix = this.pickIndexedPrefix(this.wordIndex, normalizeWord(keyword))!;
+        return { words: prefix.split(' '), prefix, strategy: 'keyword' };
       }
     }
 
-    // Fallback to first suffix (shouldn't happen with proper weights)
-    return entry.suffixes[0].word;
+    const start = this.getStart(options);
+    return { words: start ? start.split(' ') : [], prefix: start, strategy: 'unseeded' };
   }
 
   /**
-   * Generate a sequence of words from a starting prefix
+   * Like `generate`, but also scores the sentence and collects the inputs it was built from.
+   * A seed that doesn't match a prefix is backed off as described in `SeedStrategy`.
    */
-  generate(prefix: string, maxLength = 50): string[] {
-    const result: string[] = prefix.split(' ');
-    let currentPrefix = prefix;
+  sample(prefix = '', maxLength = 50, options: SamplingOptions = {}): GeneratedSentence {
+    const seed = prefix.split(' ').filter(word => word.length > 0);
+    const { words: result, prefix: startPrefix, strategy } = this.resolveSeed(seed, options);
+    const refs = new Set<number>();
+    let score = 0;
+    if (startPrefix === null) {
+      return { words: result, score, refs: [], strategy };
+    }
+
+    // A backed off prefix only shares its ending with the words generated so far
+    let currentPrefix = startPrefix;
 
     for (let i = 0; i < maxLength; i++) {
-      const nextWord = this.getNext(currentPrefix);
+      const nextWord = this.getNext(currentPrefix, options);
       if (!nextWord) break;
 
+      score += this.chains.get(currentPrefix)!.suffixes.length - 1;
+      this.linkIndex.get(linkKey(currentPrefix, nextWord))?.forEach(id => refs.add(id));
+      if (nextWord === SENTENCE_END) break;
+
       result.push(nextWord);
 
       // Update prefix for next iteration (sliding window)
-      const words = result.slice(-2); // Keep last 2 words for state
+      const words = [...currentPrefix.split(' ').slice(1), nextWord];
       currentPrefix = words.join(' ');
     }
 
-    return result;
+    return { words: result, score, refs: Array.from(refs), strategy };
+  }
+
+  /**
+   * Check if a prefix is followed by a suffix, which may be `SENTENCE_END`
+   */
+  hasLink(prefix: string, suffix: string): boolean {
+    return this.chains.get(prefix)?.suffixIndex.has(suffix) ?? false;
+  }
+
+  /**
+   * Check if a prefix opened a sentence
+   */
+  isStart(prefix: string): boolean {
+    return this.starts.has(prefix);
   }
 
   /**
@@ -266,8 +1507,12 @@ public async save(): Promise<void> {
   getStats() {
     return {
       prefixCount: this.chains.size,
-      totalSuffixes: Array.from(this.chains.values())
-        .reduce((sum, entry) => sum + entry.suffixes.length, 0),
+      totalSuffixes: this.suffixCount,
+      totalWeight: this.totalWeight,
+      startCount: this.starts.size,
+      inputCount: this.inputs.size,
+      stateSize: this.stateSize,
+      estimatedMemory: this.memoryEstimate,
       memoryUsage: process.memoryUsage().heapUsed
     };
   }
@@ -276,16 +1521,49 @@ public async save(): Promise<void> {
    * Clear all chains
    */
   clear(): void {
-    this.chains.clear();
+    if (this.snapshotCut) this.snapshotCut.cleared = true;
+    this.reset();
+    this.log({ op: 'clear' });
     this.dirty = true;
     this.save();
   }
 
+  /**
+   * Empty the in-memory store without saving
+   */
+  private reset(): void {
+    this.chains.clear();
+    this.lowerOrderIndex.clear();
+    this.wordIndex.clear();
+    this.starts.clear();
+    this.startAliasTable = null;
+    this.inputs.clear();
+    this.tagIndex.clear();
+    this.linkIndex.clear();
+    this.nextInputId = 1;
+    this.stateSize = null;
+    this.memoryEstimate = 0;
+    this.suffixCount = 0;
+    this.totalWeight = 0;
+  }
+
   /**
    * Remove a specific prefix
    */
   removePrefix(prefix: string): void {
-    if (this.chains.delete(prefix)) {
+    const entry = this.chains.get(prefix);
+    if (entry) this.preserveChain(entry);
+    if (entry && this.chains.delete(prefix)) {
+      this.unindexPrefix(prefix);
+      this.memoryEstimate -= prefixBytes(prefix);
+      for (const suffix of entry.suffixes) {
+        this.memoryEstimate -= suffixBytes(suffix.word);
+      }
+      this.suffixCount -= entry.suffixes.length;
+      this.totalWeight -= entry.totalWeight;
+      if (this.starts.has(prefix)) this.adjustStart(prefix, -Infinity);
+      if (this.chains.size === 0) this.stateSize = null;
+      this.log({ op: 'removePrefix', prefix });
       this.dirty = true;
       this.save();
     }
@@ -314,6 +1592,8 @@ public async save(): Promise<void> {
 
     for (const [prefix, entry] of this.chains) {
       for (const suffix of entry.suffixes) {
+        // markov-strings-db models sentence ends itself
+        if (suffix.word === SENTENCE_END) continue;
         result.push({
           prefix,
           suffix: suffix.word,
@@ -327,21 +1607,145 @@ public async save(): Promise<void> {
 }
 
 /**
- * Global store cache for performance
+ * Global store cache for performance, in least to most recently used order
  */
 const storeCache = new Map<string, MarkovStore>();
 
 /**
- * Get or create a Markov store for a guild
+ * Stores being loaded, so concurrent callers share one instance
+ */
+const loadingStores = new Map<string, Promise<MarkovStore>>();
+
+/**
+ * Flushes of evicted stores, which must finish before the guild is loaded again
+ */
+const evictingStores = new Map<string, Promise<void>>();
+
+/**
+ * How many callers are using each guild's store across awaits, which keeps it from being evicted
+ */
+const pinnedStores = new Map<string, number>();
+
+let evictionCount = 0;
+
+/**
+ * Evict least recently used stores, flushing them first, until the cache fits in
+ * `chainCacheMemoryLimit`. The store just requested and pinned stores are never evicted.
+ */
+function evictStores(keepGuildId: string): void {
+  const limit = config.chainCacheMemoryLimit * 1024 * 1024;
+  let total = 0;
+  storeCache.forEach(store => {
+    total += store.getMemoryEstimate();
+  });
+
+  for (const [guildId, store] of storeCache) {
+    if (total <= limit) break;
+    if (guildId === keepGuildId || pinnedStores.has(guildId)) continue;
+
+    total -= store.getMemoryEstimate();
+    storeCache.delete(guildId);
+    evictionCount++;
+    storeEvents.emit('evict', guildId);
+    const flushing = store
+      .flush()
+      .catch(err => L.error({ err, guildId }, 'Error flushing evicted Markov store'))
+      .finally(() => evictingStores.delete(guildId));
+    evictingStores.set(guildId, flushing);
+    L.info(
+      { guildId, estimatedMemory: store.getMemoryEstimate(), cacheMemory: total },
+      'Evicted Markov store from cache',
+    );
+  }
+}
+
+/**
+ * Get or create a Markov store for a guild.
+ *
+ * The store may be evicted as soon as the caller yields, after which the next call loads a new
+ * instance. Use `withMarkovStore` to keep using it across awaits, so changes can't be made to an
+ * evicted instance and lost.
  */
 export async function getMarkovStore(guildId: string): Promise<MarkovStore> {
-  if (!storeCache.has(guildId)) {
-    const store = new MarkovStore(guildId);
-    await store.load();
-    storeCache.set(guildId, store);
+  const cached = storeCache.get(guildId);
+  if (cached) {
+    // Re-insert to mark as most recently used
+    storeCache.delete(guildId);
+    storeCache.set(guildId, cached);
+    evictStores(guildId);
+    return cached;
+  }
+
+  let loading = loadingStores.get(guildId);
+  if (!loading) {
+    loading = (async () => {
+      await evictingStores.get(guildId);
+      const store = new MarkovStore(guildId);
+      await store.load();
+      storeCache.set(guildId, store);
+      return store;
+    })().finally(() => loadingStores.delete(guildId));
+    loadingStores.set(guildId, loading);
   }
 
-  return storeCache.get(guildId)!;
+  const store = await loading;
+  evictStores(guildId);
+  return store;
+}
+
+/**
+ * Use a guild's store, keeping it in the cache until `use` settles
+ */
+export async function withMarkovStore<T>(
+  guildId: string,
+  use: (store: MarkovStore) => T | Promise<T>,
+): Promise<T> {
+  pinnedStores.set(guildId, (pinnedStores.get(guildId) ?? 0) + 1);
+  try {
+    return await use(await getMarkovStore(guildId));
+  } finally {
+    const pins = pinnedStores.get(guildId)! - 1;
+    if (pins > 0) {
+      pinnedStores.set(guildId, pins);
+    } else {
+      pinnedStores.delete(guildId);
+    }
+  }
+}
+
+/**
+ * Statistics about the store cache
+ */
+export function getStoreCacheStats() {
+  let estimatedMemory = 0;
+  storeCache.forEach(store => {
+    estimatedMemory += store.getMemoryEstimate();
+  });
+  return {
+    cachedStores: storeCache.size,
+    estimatedMemory,
+    memoryLimit: config.chainCacheMemoryLimit * 1024 * 1024,
+    evictions: evictionCount
+  };
+}
+
+/**
+ * Statistics of each cached store, by guild ID
+ */
+export function getCachedStoreStats(): Map<string, ReturnType<MarkovStore['getStats']>> {
+  const stats = new Map<string, ReturnType<MarkovStore['getStats']>>();
+  storeCache.forEach((store, guildId) => {
+    stats.set(guildId, store.getStats());
+  });
+  return stats;
+}
+
+/**
+ * Write every cached store's pending changes to disk, e.g. before exiting
+ */
+export async function flushAllStores(): Promise<void> {
+  await Promise.all(Array.from(storeCache.values()).map(store => store.flush()));
+  await Promise.all(evictingStores.values());
 }
 
 /**
@@ -349,4 +1753,4 @@ export async function getMarkovStore(guildId: string): Promise<MarkovStore> {
  */
 export function clearAllStores(): void {
   storeCache.clear();
-}
\ No newline at end of file
+}
@@ -0,0 +1,332 @@
+import http from 'http';
+import { config } from './config';
+import type { CorpusBackendName } from './entity/GuildSettings';
+import L from './logger';
+import { getCachedStoreStats } from './markov-store';
+
+type Labels = Record<string, string>;
+
+/**
+ * Upper bounds of the latency buckets, in seconds
+ */
+const LATENCY_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Upper bounds of the training throughput buckets, in messages per second
+ */
+const THROUGHPUT_BUCKETS = [10, 50, 100, 500, 1000, 5000, 10000, 50000, 100000];
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (!entries.length) return '';
+  const escape = (value: string) =>
+    value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+  return `{${entries.map(([name, value]) => `${name}="${escape(value)}"`).join(',')}}`;
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  /** Observations in each bucket, not cumulative. The last is for values above every bound. */
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Summary of one labelled series of a histogram
+ */
+export interface HistogramSummary {
+  labels: Labels;
+  count: number;
+  mean: number;
+  /** Estimated from the buckets, like Prometheus' `histogram_quantile` */
+  p95: number;
+}
+
+/**
+ * A Prometheus histogram, with a series per set of labels
+ */
+class Histogram {
+  readonly name: string;
+  readonly help: string;
+  private readonly buckets: number[];
+  private readonly series = new Map<string, HistogramSeries>();
+
+  constructor(name: string, help: string, buckets: number[]) {
+    this.name = name;
+    this.help = help;
+    this.buckets = buckets;
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: new Array(this.buckets.length + 1).fill(0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    const index = this.buckets.findIndex((bound) => value <= bound);
+    series.counts[index === -1 ? this.buckets.length : index] += 1;
+    series.sum += value;
+    series.count += 1;
+  }
+
+  private quantile(series: HistogramSeries, q: number): number {
+    const rank = q * series.count;
+    let cumulative = 0;
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (cumulative + series.counts[i] >= rank) {
+        const lower = i === 0 ? 0 : this.buckets[i - 1];
+        const fraction = series.counts[i] ? (rank - cumulative) / series.counts[i] : 0;
+        return lower + (this.buckets[i] - lower) * fraction;
+      }
+      cumulative += series.counts[i];
+    }
+    // Above the highest bound, which is the best estimate available
+    return this.buckets[this.buckets.length - 1];
+  }
+
+  summarize(): HistogramSummary[] {
+    return Array.from(this.series.values(), (series) => ({
+      labels: series.labels,
+      count: series.count,
+      mean: series.count ? series.sum / series.count : 0,
+      p95: this.quantile(series, 0.95),
+    }));
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    this.series.forEach((series) => {
+      let cumulative = 0;
+      this.buckets.forEach((bound, i) => {
+        cumulative += series.counts[i];
+        const labels = formatLabels({ ...series.labels, le: `${bound}` });
+        lines.push(`${this.name}_bucket${labels} ${cumulative}`);
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`,
+      );
+      lines.push(`${this.name}_sum${formatLabels(series.labels)} ${series.sum}`);
+      lines.push(`${this.name}_count${formatLabels(series.labels)} ${series.count}`);
+    });
+    return lines;
+  }
+}
+
+/**
+ * A Prometheus counter, with a series per set of labels
+ */
+class Counter {
+  readonly name: string;
+  readonly help: string;
+  private readonly series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  inc(labels: Labels, by = 1): void {
+    const key = labelKey(labels);
+    const series = this.series.get(key) ?? { labels, value: 0 };
+    series.value += by;
+    this.series.set(key, series);
+  }
+
+  values(): Array<{ labels: Labels; value: number }> {
+    return Array.from(this.series.values());
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    this.series.forEach(({ labels, value }) => {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    });
+    return lines;
+  }
+}
+
+const generationDuration = new Histogram(
+  'markov_generation_duration_seconds',
+  'Time to generate a sentence, by backend and outcome',
+  LATENCY_BUCKETS,
+);
+const trainingThroughput = new Histogram(
+  'markov_training_messages_per_second',
+  'Messages learned per second in each batch, by backend',
+  THROUGHPUT_BUCKETS,
+);
+const trainingMessages = new Counter(
+  'markov_training_messages_total',
+  'Messages given to a backend to learn',
+);
+const workerQueueWait = new Histogram(
+  'markov_worker_queue_wait_seconds',
+  'Time a worker pool task waited for a worker, by task type',
+  LATENCY_BUCKETS,
+);
+const workerTaskDuration = new Histogram(
+  'markov_worker_task_duration_seconds',
+  'Time a worker took to run a task, by task type and outcome',
+  LATENCY_BUCKETS,
+);
+const discordEvents = new Counter('markov_discord_events_total', 'Discord events received');
+
+/**
+ * Whether metrics are being collected
+ */
+export function isMetricsEnabled(): boolean {
+  return config.enablePerformanceMonitoring;
+}
+
+/**
+ * Record the time a backend took to generate a sentence, or fail to
+ */
+export function observeGeneration(backend: CorpusBackendName, ms: number, failed: boolean): void {
+  if (!isMetricsEnabled()) return;
+  generationDuration.observe({ backend, outcome: failed ? 'failure' : 'success' }, ms / 1000);
+}
+
+/**
+ * Record a batch of messages learned by a backend
+ */
+export function observeTraining(backend: CorpusBackendName, messages: number, ms: number): void {
+  if (!isMetricsEnabled() || messages === 0) return;
+  trainingMessages.inc({ backend }, messages);
+  trainingThroughput.observe({ backend }, messages / Math.max(ms / 1000, 0.001));
+}
+
+/**
+ * Record how long a worker pool task was queued before a worker took it
+ */
+export function observeWorkerQueueWait(type: string, ms: number): void {
+  if (!isMetricsEnabled()) return;
+  workerQueueWait.observe({ type }, ms / 1000);
+}
+
+/**
+ * Record how long a worker took to run a task
+ */
+export function observeWorkerTask(type: string, ms: number, failed: boolean): void {
+  if (!isMetricsEnabled()) return;
+  workerTaskDuration.observe({ type, outcome: failed ? 'failure' : 'success' }, ms / 1000);
+}
+
+/**
+ * Count a Discord event the bot handles
+ */
+export function countDiscordEvent(event: string): void {
+  if (!isMetricsEnabled()) return;
+  discordEvents.inc({ event });
+}
+
+/**
+ * Gauges of each cached MarkovStore's size, read when scraped
+ */
+function renderStoreGauges(): string[] {
+  const gauges = [
+    ['markov_store_inputs', 'Messages in a cached store', 'inputCount'],
+    ['markov_store_prefixes', 'Distinct prefixes in a cached store', 'prefixCount'],
+    ['markov_store_memory_bytes', 'Estimated heap used by a cached store', 'estimatedMemory'],
+  ] as const;
+  const stats = getCachedStoreStats();
+  return gauges.flatMap(([name, help, key]) => [
+    `# HELP ${name} ${help}`,
+    `# TYPE ${name} gauge`,
+    ...Array.from(stats, ([guildId, stat]) => `${name}${formatLabels({ guildId })} ${stat[key]}`),
+  ]);
+}
+
+/**
+ * Every metric in the Prometheus text exposition format
+ */
+export function renderMetrics(): string {
+  const lines = [
+    ...generationDuration.render(),
+    ...trainingThroughput.render(),
+    ...trainingMessages.render(),
+    ...workerQueueWait.render(),
+    ...workerTaskDuration.render(),
+    ...discordEvents.render(),
+    ...renderStoreGauges(),
+  ];
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * The metrics summarized for `/metrics`
+ */
+export interface MetricsSummary {
+  generation: HistogramSummary[];
+  trainingThroughput: HistogramSummary[];
+  trainingMessages: Array<{ labels: Labels; value: number }>;
+  workerQueueWait: HistogramSummary[];
+  workerTaskDuration: HistogramSummary[];
+  discordEvents: Array<{ labels: Labels; value: number }>;
+  stores: {
+    cachedStores: number;
+    inputCount: number;
+    prefixCount: number;
+    estimatedMemory: number;
+  };
+}
+
+export function getMetricsSummary(): MetricsSummary {
+  const stores = { cachedStores: 0, inputCount: 0, prefixCount: 0, estimatedMemory: 0 };
+  getCachedStoreStats().forEach((stats) => {
+    stores.cachedStores += 1;
+    stores.inputCount += stats.inputCount;
+    stores.prefixCount += stats.prefixCount;
+    stores.estimatedMemory += stats.estimatedMemory;
+  });
+  return {
+    generation: generationDuration.summarize(),
+    trainingThroughput: trainingThroughput.summarize(),
+    trainingMessages: trainingMessages.values(),
+    workerQueueWait: workerQueueWait.summarize(),
+    workerTaskDuration: workerTaskDuration.summarize(),
+    discordEvents: discordEvents.values(),
+    stores,
+  };
+}
+
+let metricsServer: http.Server | null = null;
+
+/**
+ * Serve the metrics at `/metrics` on `metricsHost` and `metricsPort`, if monitoring is enabled
+ */
+export function startMetricsServer(): void {
+  if (!isMetricsEnabled() || metricsServer) return;
+  metricsServer = http.createServer((req, res) => {
+    if (req.method !== 'GET' || req.url?.split('?')[0] !== '/metrics') {
+      res.writeHead(404).end();
+      return;
+    }
+    try {
+      res
+        .writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' })
+        .end(renderMetrics());
+    } catch (err) {
+      L.error({ err }, 'Error rendering metrics');
+      res.writeHead(500).end();
+    }
+  });
+  metricsServer.on('error', (err) => L.error({ err }, 'Metrics server error'));
+  metricsServer.listen(config.metricsPort, config.metricsHost, () => {
+    L.info({ host: config.metricsHost, port: config.metricsPort }, 'Serving metrics');
+  });
+}
+
+export async function stopMetricsServer(): Promise<void> {
+  const server = metricsServer;
+  metricsServer = null;
+  if (!server) return;
+  await new Promise<void>((resolve) => {
+    server.close(() => resolve());
+  });
+}
@@ -0,0 +1,232 @@
+import 'source-map-support/register';
+import 'reflect-metadata';
+import Markov from 'markov-strings-db';
+import { DataSource } from 'typeorm';
+import { config } from './config';
+import ormconfig from './ormconfig';
+import L from './logger';
+import {
+  buildChainLinks,
+  flushAllStores,
+  MarkovStore,
+  SENTENCE_END,
+  StoreInput,
+  withMarkovStore,
+} from './markov-store';
+import { getGuildSettings, setGuildBackend } from './guild-settings';
+import { CorpusChain, MarkovStringsDbBackend } from './corpus';
+
+/**
+ * Progress of a running store migration
+ */
+export interface StoreMigrationProgress {
+  processedMessages: number;
+  totalMessages: number;
+}
+
+/**
+ * How a rebuilt store compares with markov-strings-db's tables
+ */
+export interface StoreMigrationCheck {
+  /** Messages in markov-strings-db's input table */
+  expectedMessages: number;
+  /** Messages in the store, plus those too short to make a chain link */
+  actualMessages: number;
+  /** Chains read from markov-strings-db's fragment and corpus tables */
+  checkedChains: number;
+  /** Checked chains the store doesn't have, e.g. because they were built with another state size */
+  missingChains: number;
+}
+
+/**
+ * Outcome of a store migration, including the check used to verify it
+ */
+export interface StoreMigrationResult {
+  guildId: string;
+  stateSize: number;
+  migratedMessages: number;
+  check: StoreMigrationCheck;
+  verified: boolean;
+  /** Whether the guild was switched over to the MarkovStore backend */
+  switched: boolean;
+}
+
+export interface StoreMigrationOptions {
+  /** Switch the guild to the MarkovStore backend once the counts are verified. Default true. */
+  switchBackend?: boolean;
+  onProgress?: (progress: StoreMigrationProgress) => void | Promise<void>;
+}
+
+/**
+ * Whether the store holds a chain markov-strings-db learned. markov-strings-db only splits words
+ * on spaces, so chains the store splits differently, e.g. around line breaks, can't be compared
+ * and aren't checked.
+ * @returns Undefined if the chain can't be compared
+ */
+function hasCorpusChain(
+  store: MarkovStore,
+  { kind, words, next }: CorpusChain,
+  stateSize: number,
+): boolean | undefined {
+  const blockSize = words.split(' ').length;
+  // Sentences shorter than the state size have a start and end, but no chain in the store
+  if (kind !== 'link' && blockSize < stateSize) return undefined;
+  // A corpus built with another state size doesn't match the store
+  if (blockSize !== stateSize) return false;
+
+  const text = next ? `${words} ${next}` : words;
+  if (text.split(/\s+/).length !== text.split(' ').length) return undefined;
+  if (kind === 'start') return store.isStart(words);
+  if (kind === 'end') return store.hasLink(words, SENTENCE_END);
+  return store.hasLink(words, buildChainLinks(text, stateSize)[0][1]);
+}
+
+/**
+ * Check a rebuilt store against the message count and the chains in markov-strings-db's tables
+ */
+async function checkStore(
+  store: MarkovStore,
+  source: MarkovStringsDbBackend,
+  stateSize: number,
+  shortMessages: number,
+): Promise<StoreMigrationCheck> {
+  let checkedChains = 0;
+  let missingChains = 0;
+  for await (const page of source.exportChains(config.batchSize)) {
+    page.forEach((chain) => {
+      const found = hasCorpusChain(store, chain, stateSize);
+      if (found === undefined) return;
+      checkedChains += 1;
+      if (!found) missingChains += 1;
+    });
+  }
+  return {
+    expectedMessages: (await source.getStats()).inputCount,
+    actualMessages: store.getStats().inputCount + shortMessages,
+    checkedChains,
+    missingChains,
+  };
+}
+
+/**
+ * Rebuilds a guild's MarkovStore from its markov-strings-db corpus.
+ *
+ * Messages are exported from the source in pages of `config.batchSize` so large guilds don't
+ * need the whole corpus in memory. Each message keeps its tags so deletes and edits still apply
+ * afterwards. Once every page is imported, the store is checked against markov-strings-db's
+ * tables: it must hold every message in the input table, and every sentence start, end and
+ * chain in the fragment and corpus tables. markov-strings-db chains whole blocks of words
+ * together, so its tables can't be compared with the store's prefix and suffix totals directly.
+ * The guild is only switched over to the MarkovStore backend if the check passes.
+ */
+export async function migrateGuildToStore(
+  source: MarkovStringsDbBackend,
+  options: StoreMigrationOptions = {},
+): Promise<StoreMigrationResult> {
+  const { guildId } = source;
+  const { switchBackend = true, onProgress } = options;
+  const { stateSize } = await getGuildSettings(guildId);
+
+  const { inputCount: totalMessages } = await source.getStats();
+  L.info({ guildId, totalMessages, stateSize }, 'Migrating corpus to MarkovStore');
+
+  // Keep the store cached while it's rebuilt, so no page goes to an evicted copy
+  const { processedMessages, check } = await withMarkovStore(guildId, async (store) => {
+    store.clear();
+    let processed = 0;
+    let shortMessages = 0;
+
+    for await (const page of source.export(config.batchSize)) {
+      const pageInputs: StoreInput[] = [];
+      page.forEach((input) => {
+        const links = buildChainLinks(input.string, stateSize);
+        if (links.length === 0) {
+          shortMessages += 1;
+          return;
+        }
+        pageInputs.push({
+          links,
+          tags: input.tags?.length ? input.tags : [guildId],
+          custom: input.custom,
+        });
+      });
+      store.addMany(pageInputs);
+
+      processed += page.length;
+      // eslint-disable-next-line no-await-in-loop
+      await onProgress?.({ processedMessages: processed, totalMessages });
+    }
+
+    // Persist the rebuilt store before the guild can be switched over to it
+    await store.flush();
+
+    return {
+      processedMessages: processed,
+      check: await checkStore(store, source, stateSize, shortMessages),
+    };
+  });
+  const verified = check.expectedMessages === check.actualMessages && check.missingChains === 0;
+
+  if (!verified) {
+    L.error({ guildId, check }, 'MarkovStore migration does not match the database');
+  } else if (switchBackend) {
+    await setGuildBackend(guildId, 'markov-store');
+  }
+  const switched = verified && switchBackend;
+  L.info({ guildId, processedMessages, check, switched }, 'MarkovStore migration done');
+
+  return {
+    guildId,
+    stateSize,
+    migratedMessages: processedMessages,
+    check,
+    verified,
+    switched,
+  };
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  if (args.length < 1) {
+    console.log('Usage: node migrate-store.js <guildId> [--no-switch]');
+    console.log('Options:');
+    console.log('  --no-switch  Build and verify the store without switching the guild over');
+    process.exit(1);
+  }
+
+  const guildId = args[0];
+  const switchBackend = !args.includes('--no-switch');
+
+  const dataSourceOptions = Markov.extendDataSourceOptions(ormconfig);
+  const dataSource = new DataSource(dataSourceOptions);
+  await dataSource.initialize();
+
+  const { stateSize } = await getGuildSettings(guildId);
+  const source = await MarkovStringsDbBackend.create(guildId, stateSize);
+  const result = await migrateGuildToStore(source, {
+    switchBackend,
+    onProgress: ({ processedMessages, totalMessages }) => {
+      const progress = totalMessages
+        ? ((processedMessages / totalMessages) * 100).toFixed(2)
+        : '100.00';
+      console.log(`Progress: ${progress}% (${processedMessages}/${totalMessages} messages)`);
+    },
+  });
+
+  console.log(
+    `Migrated ${result.migratedMessages} messages. Messages: ${result.check.actualMessages}/${result.check.expectedMessages}, chains missing: ${result.check.missingChains}/${result.check.checkedChains}.`,
+  );
+  if (!result.verified) {
+    console.log('Verification failed; the guild was not switched over.');
+  } else if (result.switched) {
+    console.log('Verification passed; the guild now uses MarkovStore.');
+  }
+
+  await flushAllStores();
+  await dataSource.destroy();
+  if (!result.verified) process.exit(1);
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
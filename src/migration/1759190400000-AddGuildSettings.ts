@@ -0,0 +1,14 @@
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class AddGuildSettings1759190400000 implements MigrationInterface {
+    name = 'AddGuildSettings1759190400000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TABLE "guild_settings" ("id" text PRIMARY KEY NOT NULL, "stateSize" integer, "maxTries" integer, "minScore" integer, "responseChannelIds" text, "userRoleIds" text)`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE "guild_settings"`);
+    }
+
+}
@@ -0,0 +1,17 @@
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class AddGuildBackend1759795200000 implements MigrationInterface {
+    name = 'AddGuildBackend1759795200000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "guild_settings" ADD COLUMN "backend" text`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TABLE "temporary_guild_settings" ("id" text PRIMARY KEY NOT NULL, "stateSize" integer, "maxTries" integer, "minScore" integer, "responseChannelIds" text, "userRoleIds" text)`);
+        await queryRunner.query(`INSERT INTO "temporary_guild_settings"("id", "stateSize", "maxTries", "minScore", "responseChannelIds", "userRoleIds") SELECT "id", "stateSize", "maxTries", "minScore", "responseChannelIds", "userRoleIds" FROM "guild_settings"`);
+        await queryRunner.query(`DROP TABLE "guild_settings"`);
+        await queryRunner.query(`ALTER TABLE "temporary_guild_settings" RENAME TO "guild_settings"`);
+    }
+
+}
@@ -0,0 +1,19 @@
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class AddSamplingSettings1761004800000 implements MigrationInterface {
+    name = 'AddSamplingSettings1761004800000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "guild_settings" ADD COLUMN "temperature" real`);
+        await queryRunner.query(`ALTER TABLE "guild_settings" ADD COLUMN "topK" integer`);
+        await queryRunner.query(`ALTER TABLE "guild_settings" ADD COLUMN "topP" real`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TABLE "temporary_guild_settings" ("id" text PRIMARY KEY NOT NULL, "stateSize" integer, "maxTries" integer, "minScore" integer, "responseChannelIds" text, "userRoleIds" text, "backend" text)`);
+        await queryRunner.query(`INSERT INTO "temporary_guild_settings"("id", "stateSize", "maxTries", "minScore", "responseChannelIds", "userRoleIds", "backend") SELECT "id", "stateSize", "maxTries", "minScore", "responseChannelIds", "userRoleIds", "backend" FROM "guild_settings"`);
+        await queryRunner.query(`DROP TABLE "guild_settings"`);
+        await queryRunner.query(`ALTER TABLE "temporary_guild_settings" RENAME TO "guild_settings"`);
+    }
+
+}
@@ -0,0 +1,22 @@
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class AddAutoRespondSettings1761609600000 implements MigrationInterface {
+    name = 'AddAutoRespondSettings1761609600000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "channel" ADD COLUMN "autoRespond" boolean NOT NULL DEFAULT (0)`);
+        await queryRunner.query(`ALTER TABLE "channel" ADD COLUMN "autoRespondProbability" real NOT NULL DEFAULT (1)`);
+        await queryRunner.query(`ALTER TABLE "channel" ADD COLUMN "autoRespondCooldown" integer NOT NULL DEFAULT (0)`);
+        await queryRunner.query(`ALTER TABLE "channel" ADD COLUMN "autoRespondUserHourlyLimit" integer NOT NULL DEFAULT (0)`);
+        await queryRunner.query(`ALTER TABLE "channel" ADD COLUMN "quietHoursStart" integer`);
+        await queryRunner.query(`ALTER TABLE "channel" ADD COLUMN "quietHoursEnd" integer`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TABLE "temporary_channel" ("id" text PRIMARY KEY NOT NULL, "listen" boolean NOT NULL DEFAULT (0), "guildId" text, CONSTRAINT "FK_58d968d578e6279e2cc884db403" FOREIGN KEY ("guildId") REFERENCES "guild" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+        await queryRunner.query(`INSERT INTO "temporary_channel"("id", "listen", "guildId") SELECT "id", "listen", "guildId" FROM "channel"`);
+        await queryRunner.query(`DROP TABLE "channel"`);
+        await queryRunner.query(`ALTER TABLE "temporary_channel" RENAME TO "channel"`);
+    }
+
+}
@@ -0,0 +1,21 @@
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class AddChatterSettings1762214400000 implements MigrationInterface {
+    name = 'AddChatterSettings1762214400000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "channel" ADD COLUMN "chatter" boolean NOT NULL DEFAULT (0)`);
+        await queryRunner.query(`ALTER TABLE "channel" ADD COLUMN "chatterMessageInterval" integer NOT NULL DEFAULT (0)`);
+        await queryRunner.query(`ALTER TABLE "channel" ADD COLUMN "chatterIdleMinMinutes" integer NOT NULL DEFAULT (0)`);
+        await queryRunner.query(`ALTER TABLE "channel" ADD COLUMN "chatterIdleMaxMinutes" integer NOT NULL DEFAULT (0)`);
+        await queryRunner.query(`ALTER TABLE "channel" ADD COLUMN "chatterDueAt" datetime`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TABLE "temporary_channel" ("id" text PRIMARY KEY NOT NULL, "listen" boolean NOT NULL DEFAULT (0), "guildId" text, "autoRespond" boolean NOT NULL DEFAULT (0), "autoRespondProbability" real NOT NULL DEFAULT (1), "autoRespondCooldown" integer NOT NULL DEFAULT (0), "autoRespondUserHourlyLimit" integer NOT NULL DEFAULT (0), "quietHoursStart" integer, "quietHoursEnd" integer, CONSTRAINT "FK_58d968d578e6279e2cc884db403" FOREIGN KEY ("guildId") REFERENCES "guild" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+        await queryRunner.query(`INSERT INTO "temporary_channel"("id", "listen", "guildId", "autoRespond", "autoRespondProbability", "autoRespondCooldown", "autoRespondUserHourlyLimit", "quietHoursStart", "quietHoursEnd") SELECT "id", "listen", "guildId", "autoRespond", "autoRespondProbability", "autoRespondCooldown", "autoRespondUserHourlyLimit", "quietHoursStart", "quietHoursEnd" FROM "channel"`);
+        await queryRunner.query(`DROP TABLE "channel"`);
+        await queryRunner.query(`ALTER TABLE "temporary_channel" RENAME TO "channel"`);
+    }
+
+}
@@ -0,0 +1,14 @@
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class AddShadowStats1762819200000 implements MigrationInterface {
+    name = 'AddShadowStats1762819200000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TABLE "shadow_stats" ("guildId" text NOT NULL, "backend" text NOT NULL, "operation" text NOT NULL, "samples" integer NOT NULL DEFAULT (0), "failures" integer NOT NULL DEFAULT (0), "totalLatencyMs" real NOT NULL DEFAULT (0), "maxLatencyMs" real NOT NULL DEFAULT (0), "totalLength" integer NOT NULL DEFAULT (0), "totalScore" real NOT NULL DEFAULT (0), "createdAt" datetime NOT NULL DEFAULT (datetime('now')), PRIMARY KEY ("guildId", "backend", "operation"))`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE "shadow_stats"`);
+    }
+
+}
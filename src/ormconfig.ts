@@ -1,10 +1,29 @@
 import { DataSourceOptions } from 'typeorm';
 import { Channel } from './entity/Channel';
 import { Guild } from './entity/Guild';
+import { GuildSettings } from './entity/GuildSettings';
+import { UserOptOut } from './entity/UserOptOut';
+import { ShadowStats } from './entity/ShadowStats';
 import { CreateTables1640838214672 } from './migration/1640838214672-CreateTables';
+import { AddGuildSettings1759190400000 } from './migration/1759190400000-AddGuildSettings';
+import { AddGuildBackend1759795200000 } from './migration/1759795200000-AddGuildBackend';
+import { AddUserOptOut1760400000000 } from './migration/1760400000000-AddUserOptOut';
+import { AddSamplingSettings1761004800000 } from './migration/1761004800000-AddSamplingSettings';
+import { AddAutoRespondSettings1761609600000 } from './migration/1761609600000-AddAutoRespondSettings';
+import { AddChatterSettings1762214400000 } from './migration/1762214400000-AddChatterSettings';
+import { AddShadowStats1762819200000 } from './migration/1762819200000-AddShadowStats';
 
-const ENTITIES = [Channel, Guild];
-const MIGRATIONS = [CreateTables1640838214672];
+const ENTITIES = [Channel, Guild, GuildSettings, UserOptOut, ShadowStats];
+const MIGRATIONS = [
+  CreateTables1640838214672,
+  AddGuildSettings1759190400000,
+  AddGuildBackend1759795200000,
+  AddUserOptOut1760400000000,
+  AddSamplingSettings1761004800000,
+  AddAutoRespondSettings1761609600000,
+  AddChatterSettings1762214400000,
+  AddShadowStats1762819200000,
+];
 // const SUBSCRIBERS = [];
 
 const devConfig: DataSourceOptions = {
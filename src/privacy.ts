@@ -0,0 +1,35 @@
+import { UserOptOut } from './entity/UserOptOut';
+
+/**
+ * Checks if a member has opted out of having their messages learned in a guild
+ */
+export async function isOptedOut(guildId: string, userId: string): Promise<boolean> {
+  return (await UserOptOut.countBy({ guildId, userId })) > 0;
+}
+
+/**
+ * Gets every member of a guild who has opted out, for filtering batches of messages
+ */
+export async function getOptedOutUserIds(guildId: string): Promise<Set<string>> {
+  const optOuts = await UserOptOut.findBy({ guildId });
+  return new Set(optOuts.map((o) => o.userId));
+}
+
+/**
+ * Stops the bot from learning a member's future messages in a guild
+ * @returns False if the member had already opted out
+ */
+export async function optOut(guildId: string, userId: string): Promise<boolean> {
+  if (await isOptedOut(guildId, userId)) return false;
+  await UserOptOut.save(UserOptOut.create({ guildId, userId }));
+  return true;
+}
+
+/**
+ * Lets the bot learn a member's messages in a guild again
+ * @returns False if the member had not opted out
+ */
+export async function optIn(guildId: string, userId: string): Promise<boolean> {
+  const result = await UserOptOut.delete({ guildId, userId });
+  return !!result.affected;
+}
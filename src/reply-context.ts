@@ -0,0 +1,69 @@
+import { MarkovStore, normalizeWord } from './markov-store';
+
+/**
+ * The most keywords taken from a message, so replies stay on its main topics
+ */
+export const MAX_KEYWORDS = 3;
+
+/**
+ * Common words that say nothing about what a message is about
+ */
+const STOPWORDS = new Set(
+  `
+    a about above after again against all am an and any are as at be because been before being
+    below between both but by can could did do does doing dont down during each few for from
+    further get got had has have having he her here hers herself him himself his how i im if in
+    into is it its itself just like me more most my myself no nor not now of off oh ok okay on
+    once only or other our ours ourselves out over own really same she should so some such than
+    that thats the their theirs them themselves then there these they this those through to too
+    under until up us very was we were what when where which while who whom why will with would
+    yeah yes you your yours yourself yourselves
+  `
+    .trim()
+    .split(/\s+/),
+);
+
+/**
+ * Mentions, custom emoji, channel links and URLs
+ */
+const NON_WORD_TOKEN = /^(<[@#:a][^>]*>|https?:\/\/\S+)$/;
+
+/**
+ * Picks the words of a message worth replying about, most salient first. Stopwords, mentions
+ * and links are skipped.
+ * @param content The message being replied to
+ * @param store The guild's store. When given, only words it has learned are kept, rarest first.
+ * Otherwise longer words rank first.
+ * @returns Keywords normalized with `normalizeWord`
+ */
+export function extractKeywords(
+  content: string,
+  store?: MarkovStore,
+  limit = MAX_KEYWORDS,
+): string[] {
+  const words = new Set(
+    content
+      .split(/\s+/)
+      .filter((token) => !NON_WORD_TOKEN.test(token))
+      .map(normalizeWord)
+      .filter((word) => word.length > 1 && !STOPWORDS.has(word.replace(/'/g, ''))),
+  );
+
+  if (!store) {
+    return Array.from(words)
+      .sort((a, b) => b.length - a.length)
+      .slice(0, limit);
+  }
+  return Array.from(words, (word) => ({ word, frequency: store.getWordFrequency(word) }))
+    .filter(({ frequency }) => frequency > 0)
+    .sort((a, b) => a.frequency - b.frequency)
+    .slice(0, limit)
+    .map(({ word }) => word);
+}
+
+/**
+ * Check if a response mentions at least one of the keywords
+ */
+export function includesKeyword(text: string, keywords: string[]): boolean {
+  return text.split(/\s+/).some((word) => keywords.includes(normalizeWord(word)));
+}
@@ -0,0 +1,79 @@
+import 'source-map-support/register';
+import 'reflect-metadata';
+import Markov from 'markov-strings-db';
+import { DataSource } from 'typeorm';
+import ormconfig from './ormconfig';
+import { resolveBackendName } from './corpus';
+import {
+  describeShadowSummary,
+  getShadowGuildIds,
+  getShadowReport,
+  resetShadowStats,
+  ShadowReport,
+} from './shadow';
+
+function printReport(report: ShadowReport): void {
+  console.log(
+    `Guild ${report.guildId}: serving ${report.serving}, compared with ${report.candidate}`,
+  );
+  if (report.since) console.log(`  Samples since ${report.since.toISOString()}`);
+  console.log('  Generate');
+  console.log(
+    `    ${report.serving}: ${describeShadowSummary('generate', report.generate.serving)}`,
+  );
+  console.log(
+    `    ${report.candidate}: ${describeShadowSummary('generate', report.generate.candidate)}`,
+  );
+  console.log('  Learn');
+  console.log(`    ${report.serving}: ${describeShadowSummary('add', report.add.serving)}`);
+  console.log(`    ${report.candidate}: ${describeShadowSummary('add', report.add.candidate)}`);
+  if (report.safeToSwitch) {
+    console.log(`  Safe to switch to ${report.candidate}.`);
+  } else {
+    console.log(`  Not safe to switch to ${report.candidate}:`);
+    report.reasons.forEach((reason) => console.log(`    - ${reason}`));
+  }
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const reset = args.includes('--reset');
+  const guildIdArgs = args.filter((arg) => !arg.startsWith('--'));
+  if (args.includes('--help') || (reset && guildIdArgs.length === 0)) {
+    console.log('Usage: node shadow-report.js [guildId...] [--reset]');
+    console.log(
+      'Compares the backends of each guild with shadow mode samples, or the given guilds.',
+    );
+    console.log('Exits with 1 if any reported guild is not safe to switch.');
+    console.log('Options:');
+    console.log("  --reset  Forget the given guilds' samples after reporting them");
+    process.exit(1);
+  }
+
+  const dataSourceOptions = Markov.extendDataSourceOptions(ormconfig);
+  const dataSource = new DataSource(dataSourceOptions);
+  await dataSource.initialize();
+
+  const guildIds = guildIdArgs.length ? guildIdArgs : await getShadowGuildIds();
+  if (guildIds.length === 0) console.log('No shadow mode samples have been recorded.');
+
+  let allSafe = true;
+  for (const guildId of guildIds) {
+    // eslint-disable-next-line no-await-in-loop
+    const report = await getShadowReport(guildId, await resolveBackendName(guildId));
+    printReport(report);
+    allSafe = allSafe && report.safeToSwitch;
+    if (reset) {
+      // eslint-disable-next-line no-await-in-loop
+      await resetShadowStats(guildId);
+      console.log('  Samples reset.');
+    }
+  }
+
+  await dataSource.destroy();
+  if (!allSafe) process.exit(1);
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
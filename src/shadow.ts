@@ -0,0 +1,217 @@
+import { config } from './config';
+import type { CorpusBackendName } from './entity/GuildSettings';
+import { ShadowOperation, ShadowStats } from './entity/ShadowStats';
+
+/**
+ * Fewest generations each backend needs before a guild can be judged safe to switch
+ */
+export const MIN_SHADOW_SAMPLES = 100;
+
+/**
+ * How much more often, in absolute terms, the other backend may fail than the serving one
+ */
+const MAX_FAILURE_RATE_INCREASE = 0.02;
+
+/**
+ * How many times slower than the serving backend the other one may be on average
+ */
+const MAX_LATENCY_RATIO = 1.5;
+
+/**
+ * The smallest fraction of the serving backend's mean sentence length and score allowed
+ */
+const MIN_QUALITY_RATIO = 0.75;
+
+/**
+ * One timed request to a backend in shadow mode
+ */
+export interface ShadowSample {
+  guildId: string;
+  backend: CorpusBackendName;
+  operation: ShadowOperation;
+  latencyMs: number;
+  failed: boolean;
+  /** Words generated or messages learned */
+  length?: number;
+  score?: number;
+}
+
+/**
+ * Averages of one backend's samples of an operation
+ */
+export interface ShadowSummary {
+  samples: number;
+  failureRate: number;
+  meanLatencyMs: number;
+  maxLatencyMs: number;
+  /** Averaged over successful samples */
+  meanLength: number;
+  /** Averaged over successful samples */
+  meanScore: number;
+}
+
+/**
+ * A comparison of the backend a guild uses with the one it would switch to
+ */
+export interface ShadowReport {
+  guildId: string;
+  serving: CorpusBackendName;
+  candidate: CorpusBackendName;
+  /** When the oldest sample was recorded, or `null` without samples */
+  since: Date | null;
+  generate: { serving?: ShadowSummary; candidate?: ShadowSummary };
+  add: { serving?: ShadowSummary; candidate?: ShadowSummary };
+  safeToSwitch: boolean;
+  /** Why the guild isn't safe to switch yet */
+  reasons: string[];
+}
+
+/**
+ * Whether requests may be run on both backends at all
+ */
+export function isShadowModeEnabled(): boolean {
+  return config.enableMarkovStore && config.shadowSamplePercentage > 0;
+}
+
+/**
+ * Decide whether to compare the backends on a request
+ */
+export function shouldSampleShadow(): boolean {
+  return Math.random() * 100 < config.shadowSamplePercentage;
+}
+
+/**
+ * The backend a guild is compared against while it uses `serving`
+ */
+export function getShadowBackendName(serving: CorpusBackendName): CorpusBackendName {
+  return serving === 'markov-store' ? 'markov-strings-db' : 'markov-store';
+}
+
+/**
+ * Add a sample to its backend's running totals
+ */
+export async function recordShadowSample(sample: ShadowSample): Promise<void> {
+  const { guildId, backend, operation, latencyMs, failed, length = 0, score = 0 } = sample;
+  // A single upsert, so concurrent samples can't overwrite each other's counts
+  await ShadowStats.query(
+    `INSERT INTO "shadow_stats" ("guildId", "backend", "operation", "samples", "failures", "totalLatencyMs", "maxLatencyMs", "totalLength", "totalScore")
+      VALUES (?, ?, ?, 1, ?, ?, ?, ?, ?)
+      ON CONFLICT ("guildId", "backend", "operation") DO UPDATE SET
+        "samples" = "samples" + 1,
+        "failures" = "failures" + excluded."failures",
+        "totalLatencyMs" = "totalLatencyMs" + excluded."totalLatencyMs",
+        "maxLatencyMs" = MAX("maxLatencyMs", excluded."maxLatencyMs"),
+        "totalLength" = "totalLength" + excluded."totalLength",
+        "totalScore" = "totalScore" + excluded."totalScore"`,
+    [
+      guildId,
+      backend,
+      operation,
+      failed ? 1 : 0,
+      latencyMs,
+      latencyMs,
+      failed ? 0 : length,
+      failed ? 0 : score,
+    ],
+  );
+}
+
+function summarize(stats?: ShadowStats): ShadowSummary | undefined {
+  if (!stats || stats.samples === 0) return undefined;
+  const successes = stats.samples - stats.failures;
+  return {
+    samples: stats.samples,
+    failureRate: stats.failures / stats.samples,
+    meanLatencyMs: stats.totalLatencyMs / stats.samples,
+    maxLatencyMs: stats.maxLatencyMs,
+    meanLength: successes ? stats.totalLength / successes : 0,
+    meanScore: successes ? stats.totalScore / successes : 0,
+  };
+}
+
+/**
+ * Compare a guild's serving backend with the other one over the samples recorded so far
+ */
+export async function getShadowReport(
+  guildId: string,
+  serving: CorpusBackendName,
+): Promise<ShadowReport> {
+  const candidate = getShadowBackendName(serving);
+  const rows = await ShadowStats.findBy({ guildId });
+  const find = (backend: CorpusBackendName, operation: ShadowOperation) =>
+    summarize(rows.find((row) => row.backend === backend && row.operation === operation));
+  const generate = { serving: find(serving, 'generate'), candidate: find(candidate, 'generate') };
+  const add = { serving: find(serving, 'add'), candidate: find(candidate, 'add') };
+
+  const reasons: string[] = [];
+  const samples = Math.min(generate.serving?.samples ?? 0, generate.candidate?.samples ?? 0);
+  if (samples < MIN_SHADOW_SAMPLES) {
+    reasons.push(`Only ${samples} of ${MIN_SHADOW_SAMPLES} generations have been compared.`);
+  }
+  if (generate.serving && generate.candidate) {
+    const current = generate.serving;
+    const next = generate.candidate;
+    if (next.failureRate > current.failureRate + MAX_FAILURE_RATE_INCREASE) {
+      reasons.push(`${candidate} fails to generate more often.`);
+    }
+    if (next.meanLatencyMs > current.meanLatencyMs * MAX_LATENCY_RATIO) {
+      reasons.push(`${candidate} generates more slowly.`);
+    }
+    if (next.meanLength < current.meanLength * MIN_QUALITY_RATIO) {
+      reasons.push(`${candidate} generates shorter sentences.`);
+    }
+    if (next.meanScore < current.meanScore * MIN_QUALITY_RATIO) {
+      reasons.push(`${candidate} generates lower scoring sentences.`);
+    }
+  }
+  if (add.serving && add.candidate) {
+    if (add.candidate.failureRate > add.serving.failureRate + MAX_FAILURE_RATE_INCREASE) {
+      reasons.push(`${candidate} fails to learn messages more often.`);
+    }
+  }
+
+  const createdAt = rows.map((row) => row.createdAt.getTime());
+  return {
+    guildId,
+    serving,
+    candidate,
+    since: createdAt.length ? new Date(Math.min(...createdAt)) : null,
+    generate,
+    add,
+    safeToSwitch: reasons.length === 0,
+    reasons,
+  };
+}
+
+/**
+ * One line describing a backend's samples of an operation
+ */
+export function describeShadowSummary(operation: ShadowOperation, summary?: ShadowSummary): string {
+  if (!summary) return 'No samples';
+  const parts = [
+    `${summary.samples} samples`,
+    `${(summary.failureRate * 100).toFixed(1)}% failed`,
+    `${summary.meanLatencyMs.toFixed(1)} ms mean (${summary.maxLatencyMs.toFixed(1)} ms max)`,
+  ];
+  if (operation === 'generate') {
+    parts.push(`${summary.meanLength.toFixed(1)} words`, `score ${summary.meanScore.toFixed(1)}`);
+  } else {
+    parts.push(`${summary.meanLength.toFixed(1)} messages per batch`);
+  }
+  return parts.join(', ');
+}
+
+/**
+ * The guilds with recorded samples
+ */
+export async function getShadowGuildIds(): Promise<string[]> {
+  const rows = await ShadowStats.find({ select: { guildId: true } });
+  return Array.from(new Set(rows.map((row) => row.guildId)));
+}
+
+/**
+ * Forget a guild's samples, e.g. to start a fresh comparison after changing its settings
+ */
+export async function resetShadowStats(guildId: string): Promise<void> {
+  await ShadowStats.delete({ guildId });
+}
@@ -0,0 +1,236 @@
+import fs from 'fs';
+import type { FileHandle } from 'fs/promises';
+
+/**
+ * Identifies a binary MarkovStore file
+ */
+export const STORE_MAGIC = Buffer.from('MKVS', 'ascii');
+
+/**
+ * Current version of the binary MarkovStore format
+ */
+export const STORE_FORMAT_VERSION = 2;
+
+/**
+ * Size of the chunks read from and written to disk
+ */
+const CHUNK_SIZE = 64 * 1024;
+
+/**
+ * A varint of a number up to `Number.MAX_SAFE_INTEGER` never needs more bytes than this
+ */
+const MAX_VARINT_BYTES = 8;
+
+/**
+ * Encodes a binary store file in chunks, either collected in memory or written to disk as they
+ * fill with `drain`, so only a chunk or two is held in memory.
+ *
+ * Numbers are written as unsigned LEB128 varints. Words are interned: the first occurrence is
+ * written as `0` followed by the string, and later ones as the varint `index + 1`.
+ */
+export class BinaryWriter {
+  private chunk = Buffer.allocUnsafe(CHUNK_SIZE);
+  private length = 0;
+  /** Full chunks not yet written to the file, or all of them for an in-memory writer */
+  private chunks: Buffer[] = [];
+  private words = new Map<string, number>();
+  private file: FileHandle | null = null;
+
+  /**
+   * Open a file to write with `drain` and `end`, replacing it if it exists
+   */
+  static async open(filePath: string): Promise<BinaryWriter> {
+    const writer = new BinaryWriter();
+    writer.file = await fs.promises.open(filePath, 'w');
+    return writer;
+  }
+
+  private reserve(bytes: number): void {
+    if (this.length + bytes <= this.chunk.length) return;
+    this.chunks.push(this.chunk.subarray(0, this.length));
+    this.chunk = Buffer.allocUnsafe(Math.max(CHUNK_SIZE, bytes));
+    this.length = 0;
+  }
+
+  /**
+   * Whether a full chunk is waiting for `drain`
+   */
+  hasFullChunk(): boolean {
+    return this.chunks.length > 0;
+  }
+
+  /**
+   * Write the full chunks to the file
+   */
+  async drain(): Promise<void> {
+    if (!this.file) throw new Error('Cannot drain an in-memory writer');
+    for (const chunk of this.chunks.splice(0)) {
+      let written = 0;
+      while (written < chunk.length) {
+        // eslint-disable-next-line no-await-in-loop
+        const { bytesWritten } = await this.file.write(chunk, written, chunk.length - written);
+        written += bytesWritten;
+      }
+    }
+  }
+
+  writeBytes(bytes: Buffer): void {
+    this.reserve(bytes.length);
+    bytes.copy(this.chunk, this.length);
+    this.length += bytes.length;
+  }
+
+  writeVarint(value: number): void {
+    this.reserve(MAX_VARINT_BYTES);
+    let remaining = value;
+    while (remaining >= 0x80) {
+      this.chunk[this.length++] = (remaining % 0x80) | 0x80;
+      remaining = Math.floor(remaining / 0x80);
+    }
+    this.chunk[this.length++] = remaining;
+  }
+
+  writeString(value: string): void {
+    const bytes = Buffer.from(value, 'utf8');
+    this.writeVarint(bytes.length);
+    this.writeBytes(bytes);
+  }
+
+  writeWord(word: string): void {
+    const index = this.words.get(word);
+    if (index !== undefined) {
+      this.writeVarint(index + 1);
+      return;
+    }
+    this.words.set(word, this.words.size);
+    this.writeVarint(0);
+    this.writeString(word);
+  }
+
+  /**
+   * Write everything that's left and close the file, once it's synced to disk
+   */
+  async end(): Promise<void> {
+    if (!this.file) throw new Error('Cannot end an in-memory writer');
+    this.chunks.push(this.chunk.subarray(0, this.length));
+    this.length = 0;
+    await this.drain();
+    await this.file.sync();
+    await this.file.close();
+    this.file = null;
+  }
+
+  /**
+   * Everything written so far, for an in-memory writer
+   */
+  toBuffer(): Buffer {
+    return Buffer.concat([...this.chunks, this.chunk.subarray(0, this.length)]);
+  }
+
+  /**
+   * Close the file without finishing it, e.g. after an error
+   */
+  async destroy(): Promise<void> {
+    const { file } = this;
+    this.file = null;
+    await file?.close();
+  }
+}
+
+/**
+ * Streams a binary store file from disk, keeping only a chunk or two in memory, or reads one
+ * already in memory
+ */
+export class BinaryReader {
+  private buffer = Buffer.alloc(0);
+  private offset = 0;
+  private ended = false;
+  private chunks: AsyncIterator<Buffer>;
+  private words: string[] = [];
+
+  constructor(source: string | Buffer) {
+    if (typeof source === 'string') {
+      this.chunks = fs
+        .createReadStream(source, { highWaterMark: CHUNK_SIZE })
+        [Symbol.asyncIterator]();
+    } else {
+      this.chunks = (async function* inMemory() {
+        yield source;
+      })();
+    }
+  }
+
+  /**
+   * Buffer at least `bytes` bytes unless the file ends first
+   */
+  private async fill(bytes: number): Promise<void> {
+    while (this.buffer.length - this.offset < bytes && !this.ended) {
+      // eslint-disable-next-line no-await-in-loop
+      const { value, done } = await this.chunks.next();
+      if (done) {
+        this.ended = true;
+      } else {
+        this.buffer = Buffer.concat([this.buffer.subarray(this.offset), value as Buffer]);
+        this.offset = 0;
+      }
+    }
+  }
+
+  private nextByte(): number {
+    if (this.offset >= this.buffer.length) throw new Error('Unexpected end of store file');
+    return this.buffer[this.offset++];
+  }
+
+  async readBytes(length: number): Promise<Buffer> {
+    await this.fill(length);
+    if (this.buffer.length - this.offset < length) throw new Error('Unexpected end of store file');
+    const bytes = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  async readVarint(): Promise<number> {
+    if (this.buffer.length - this.offset < MAX_VARINT_BYTES) await this.fill(MAX_VARINT_BYTES);
+    let value = 0;
+    let multiplier = 1;
+    for (let i = 0; i < MAX_VARINT_BYTES; i++) {
+      const byte = this.nextByte();
+      value += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) return value;
+      multiplier *= 0x80;
+    }
+    throw new Error('Malformed varint in store file');
+  }
+
+  async readString(): Promise<string> {
+    const length = await this.readVarint();
+    return (await this.readBytes(length)).toString('utf8');
+  }
+
+  async readWord(): Promise<string> {
+    const ref = await this.readVarint();
+    if (ref === 0) {
+      const word = await this.readString();
+      this.words.push(word);
+      return word;
+    }
+    const word = this.words[ref - 1];
+    if (word === undefined) throw new Error(`Unknown word reference ${ref} in store file`);
+    return word;
+  }
+
+  /**
+   * Check if the whole file has been read
+   */
+  async atEnd(): Promise<boolean> {
+    await this.fill(1);
+    return this.buffer.length - this.offset === 0;
+  }
+
+  /**
+   * Stop reading early, closing the file
+   */
+  async close(): Promise<void> {
+    await this.chunks.return?.();
+  }
+}
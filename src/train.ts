@@ -1,6 +1,6 @@
 import 'source-map-support/register';
 import 'reflect-metadata';
-import Markov, { MarkovConstructorOptions, AddDataProps } from 'markov-strings-db';
+import Markov, { AddDataProps } from 'markov-strings-db';
 import { DataSource } from 'typeorm';
 import fs from 'fs';
 import { promises as fsPromises } from 'fs';
@@ -15,53 +15,14 @@ import L from './logger';
 import { MarkovDataCustom } from './types';
 import { TrainingStateManager } from './training-state';
 import { CONFIG_DIR } from './config/setup';
-import { getMarkovStore, MarkovStore } from './markov-store';
-import { getWorkerPool } from './workers/worker-pool';
-
-/**
- * Determine if a guild should use optimization features
- * Based on rollout percentage and force-enable lists
- */
-function shouldUseOptimizations(guildId: string): boolean {
-  // Check force-enable list first
-  if (config.optimizationForceGuildIds.includes(guildId)) {
-    return config.enableMarkovStore;
-  }
-
-  // Check rollout percentage
-  if (config.optimizationRolloutPercentage > 0) {
-    const hash = guildId.split('').reduce((a, b) => {
-      a = ((a << 5) - a) + b.charCodeAt(0);
-      return a & a;
-    }, 0);
-    const percentage = Math.abs(hash) % 100;
-    return percentage < config.optimizationRolloutPercentage && config.enableMarkovStore;
-  }
-
-  return false;
-}
-
-/**
- * Add training data to MarkovStore
- */
-async function addDataToMarkovStore(store: MarkovStore, messageData: AddDataProps): Promise<void> {
-  const words = messageData.string.trim().split(/\s+/).filter(word => word.length > 0);
-  
-  // Build chain prefixes (sliding window of stateSize)
-  const stateSize = config.stateSize;
-  for (let i = 0; i < words.length - stateSize; i++) {
-    const prefix = words.slice(i, i + stateSize).join(' ');
-    const suffix = words[i + stateSize];
-    store.addPrefix(prefix, suffix, 1);
-  }
-}
-
-const markovOpts: MarkovConstructorOptions = {
-  stateSize: config.stateSize,
-};
+import { flushAllStores } from './markov-store';
+import { shutdownWorkerPool } from './workers/worker-pool';
+import { getCorpusBackend } from './corpus';
+import { forgetUserData } from './forget';
+import { getOptedOutUserIds } from './privacy';
 
 // Constants for batch processing - OPTIMIZED for large datasets
-const BATCH_SIZE = 2000; // Increased from 100 to 2000 for better DB performance
+const BATCH_SIZE = config.batchSize;
 const BATCH_DELAY = 50; // Reduced delay since batches are larger
 const MAX_MEMORY_USAGE = 1024 * 1024 * 1024; // 1GB memory limit
 const MEMORY_CHECK_INTERVAL = 10; // Check memory every N batches instead of every batch
@@ -75,16 +36,10 @@ const getMemoryUsage = () => {
 // Add delay between batches
 const processingDelay = () => new Promise((resolve) => setTimeout(resolve, BATCH_DELAY));
 
-async function getMarkovByGuildId(guildId: string): Promise<Markov> {
-  const markov = new Markov({ id: guildId, options: { ...markovOpts, id: guildId } });
-  L.trace({ guildId }, 'Setting up markov instance');
-  await markov.setup(); // Connect the markov instance to the DB to assign it an ID
-  return markov;
-}
-
 interface JSONImport {
   message: string;
   attachments?: string[];
+  authorId?: string;
 }
 
 /**
@@ -92,7 +47,8 @@ interface JSONImport {
  */
 
 async function trainFromJson(guildId: string, jsonPath: string, clean = true): Promise<string> {
-  const markov = await getMarkovByGuildId(guildId);
+  const backend = await getCorpusBackend(guildId);
+  const optedOutUserIds = await getOptedOutUserIds(guildId);
 
   let trainingData: AddDataProps[];
   try {
@@ -118,6 +74,14 @@ async function trainFromJson(guildId: string, jsonPath: string, clean = true): P
         L.debug({ index }, 'Skipping entry with invalid attachments');
         return false;
       }
+      if (datum.authorId !== undefined && typeof datum.authorId !== 'string') {
+        L.debug({ index }, 'Skipping entry with invalid authorId');
+        return false;
+      }
+      if (datum.authorId && optedOutUserIds.has(datum.authorId)) {
+        L.trace({ index }, 'Skipping entry from opted out author');
+        return false;
+      }
       return true;
     });
 
@@ -127,10 +91,12 @@ async function trainFromJson(guildId: string, jsonPath: string, clean = true): P
       if (datum.attachments?.length) {
         custom = { attachments: datum.attachments };
       }
+      const tags = [guildId];
+      if (datum.authorId) tags.push(datum.authorId);
       return {
         string: datum.message,
         custom,
-        tags: [guildId],
+        tags,
       };
     });
   } catch (err) {
@@ -143,7 +109,7 @@ async function trainFromJson(guildId: string, jsonPath: string, clean = true): P
 
   if (clean) {
     L.debug('Deleting old data');
-    await markov.delete();
+    await backend.clear();
   } else {
     L.debug('Not deleting old data during training');
   }
@@ -166,18 +132,11 @@ async function trainFromJson(guildId: string, jsonPath: string, clean = true): P
       }
 
       const batch = trainingData.slice(i, i + BATCH_SIZE);
-      
-      // Use optimized batch training or fallback to traditional
-      if (shouldUseOptimizations(guildId)) {
-        L.debug({ guildId, batchSize: batch.length }, 'Processing training batch with optimized MarkovStore');
-        const store = await getMarkovStore(guildId);
-        for (const messageData of batch) {
-          await addDataToMarkovStore(store, messageData);
-        }
-      } else {
-        L.debug({ guildId, batchSize: batch.length }, 'Processing training batch with traditional Markov');
-        await markov.addData(batch);
-      }
+      L.debug(
+        { guildId, backend: backend.name, batchSize: batch.length },
+        'Processing training batch',
+      );
+      await backend.add(batch);
 
       processedCount += batch.length;
       batchCount++;
@@ -437,10 +396,12 @@ async function main(): Promise<void> {
     console.log(
       'Usage: node train.js <guildId> <path> [--keep-existing] [--directory] [--force-retrain]',
     );
+    console.log('       node train.js <guildId> --forget-user <userId>');
     console.log('Options:');
     console.log('  --keep-existing  Keep existing training data');
     console.log('  --directory      Process all JSON files in the specified directory');
     console.log('  --force-retrain  Force retraining on files even if already processed');
+    console.log('  --forget-user    Remove all data learned from a user instead of training');
     process.exit(1);
   }
 
@@ -449,11 +410,24 @@ async function main(): Promise<void> {
   const keepExisting = args.includes('--keep-existing');
   const isDirectory = args.includes('--directory');
   const forceRetrain = args.includes('--force-retrain');
+  const forgetUserId = inputPath === '--forget-user' ? args[2] : undefined;
 
   const dataSourceOptions = Markov.extendDataSourceOptions(ormconfig);
   const dataSource = new DataSource(dataSourceOptions);
   await dataSource.initialize();
 
+  if (inputPath === '--forget-user') {
+    if (!forgetUserId) {
+      console.log('A user ID is required with --forget-user');
+      process.exit(1);
+    }
+    await forgetUserData(guildId, forgetUserId);
+    console.log(`Removed all data learned from user ${forgetUserId} in guild ${guildId}.`);
+    await flushAllStores();
+    await dataSource.destroy();
+    return;
+  }
+
   // Ensure guild exists in DB
   await Guild.upsert(Guild.create({ id: guildId }), ['id']);
 
@@ -462,6 +436,8 @@ async function main(): Promise<void> {
     : await trainFromJson(guildId, inputPath, !keepExisting);
   console.log(result);
 
+  await shutdownWorkerPool();
+  await flushAllStores();
   await dataSource.destroy();
 }
 
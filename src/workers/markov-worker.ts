@@ -1,53 +1,139 @@
 import { parentPort, workerData } from 'worker_threads';
-import { MarkovStore } from '../markov-store';
+import {
+  buildChainLinks,
+  ChainLink,
+  InputRef,
+  MarkovStore,
+  SeedStrategy,
+  StoreOp,
+} from '../markov-store';
 import L from '../logger';
+import { generateFromStore } from '../corpus/markov-store-backend';
+import { MarkovDataCustom } from '../types';
 
 /**
- * Worker message types for communication with main thread
+ * Worker message types for communication with main thread. Tasks and store loads get a
+ * response; other store updates and shutdown don't.
  */
 interface WorkerMessage {
-  type: 'build-chains' | 'generate-response' | 'batch-update' | 'stats';
+  type: 'generate-response' | 'build-chains' | 'stats' | 'load-store' | 'store-op' | 'unload-store' | 'shutdown';
   data?: any;
 }
 
 interface WorkerResponse {
+  /** Set on replies to store loads, which aren't task results */
+  type?: 'load-store';
   success: boolean;
   result?: any;
   error?: string;
   workerId: number;
 }
 
+/**
+ * A generated response that passed the quality filter, shaped like a markov-strings-db result
+ */
+export interface GenerationResult {
+  string: string;
+  score: number;
+  /** The training inputs the response was built from */
+  refs: InputRef[];
+  /** How many attempts it took to pass the filter */
+  tries: number;
+  /** How the seed was matched to a prefix */
+  strategy: SeedStrategy;
+}
+
+/**
+ * A message to train on, shaped like markov-strings-db's AddDataProps
+ */
+export interface TrainingMessage {
+  string: string;
+  tags?: string[];
+  custom?: MarkovDataCustom;
+}
+
+/**
+ * A tokenized training message, ready to be merged into a store with `addMany`
+ */
+export interface ChainDelta {
+  links: ChainLink[];
+  tags: string[];
+  custom?: MarkovDataCustom;
+}
+
 /**
  * Worker data passed from main thread
  */
 interface WorkerInitData {
-  guildId: string;
   workerId: number;
 }
 
 /**
  * Markov Worker - Handles CPU-intensive operations in separate threads
  *
- * This worker processes chain building, batch updates, and heavy generation
- * tasks without blocking the main Discord bot thread.
+ * This worker handles heavy generation tasks without blocking the main Discord bot thread.
+ * It holds read-only replicas of guild stores: the main thread sends a snapshot before the
+ * first task for a guild, then every change it makes to that guild.
  */
 class MarkovWorker {
-  private store: MarkovStore;
+  private stores = new Map<string, MarkovStore>();
   private workerId: number;
 
   constructor(data: WorkerInitData) {
     this.workerId = data.workerId;
-    this.store = new MarkovStore(data.guildId);
 
-    L.info({ workerId: this.workerId, guildId: data.guildId }, 'Markov worker initialized');
+    L.info({ workerId: this.workerId }, 'Markov worker initialized');
+  }
+
+  private getStore(guildId: string): MarkovStore {
+    const store = this.stores.get(guildId);
+    if (!store) throw new Error(`Guild ${guildId} is not loaded in worker ${this.workerId}`);
+    return store;
+  }
+
+  /**
+   * Load a guild's snapshot, replying whether it worked so the main thread only sends the
+   * guild's tasks here once it has
+   */
+  async loadStore(data: { guildId: string; snapshot: Uint8Array }): Promise<WorkerResponse> {
+    const { guildId, snapshot } = data;
+    try {
+      const store = new MarkovStore(guildId, { persist: false });
+      // Buffers arrive as plain Uint8Arrays
+      await store.loadSnapshot(
+        Buffer.from(snapshot.buffer, snapshot.byteOffset, snapshot.byteLength),
+      );
+      this.stores.set(guildId, store);
+      L.trace({ workerId: this.workerId, guildId }, 'Markov worker store loaded');
+      return { type: 'load-store', success: true, workerId: this.workerId };
+    } catch (error) {
+      L.error({ workerId: this.workerId, guildId, err: error }, 'Failed to load guild store');
+      return {
+        type: 'load-store',
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        workerId: this.workerId
+      };
+    }
   }
 
   /**
-   * Initialize worker and load store
+   * Apply a store update from the main thread
+   * @returns False if the message is a task instead
    */
-  async init(): Promise<void> {
-    await this.store.load();
-    L.trace({ workerId: this.workerId }, 'Markov worker store loaded');
+  async applyUpdate(message: WorkerMessage): Promise<boolean> {
+    switch (message.type) {
+      case 'store-op': {
+        const { guildId, op } = message.data as { guildId: string; op: StoreOp };
+        this.stores.get(guildId)?.applyOp(op);
+        return true;
+      }
+      case 'unload-store':
+        this.stores.delete(message.data.guildId);
+        return true;
+      default:
+        return false;
+    }
   }
 
   /**
@@ -56,12 +142,10 @@ class MarkovWorker {
   async processMessage(message: WorkerMessage): Promise<WorkerResponse> {
     try {
       switch (message.type) {
-        case 'build-chains':
-          return await this.handleBuildChains(message.data);
         case 'generate-response':
           return await this.handleGenerateResponse(message.data);
-        case 'batch-update':
-          return await this.handleBatchUpdate(message.data);
+        case 'build-chains':
+          return await this.handleBuildChains(message.data);
         case 'stats':
           return await this.handleStats();
         default:
@@ -83,89 +167,63 @@ class MarkovWorker {
   }
 
   /**
-   * Build chains from training data
-   */
-  private async handleBuildChains(data: {
-    messages: Array<{ prefix: string; suffix: string; weight?: number }>;
-    clearExisting?: boolean;
-  }): Promise<WorkerResponse> {
-    const { messages, clearExisting = false } = data;
-
-    if (clearExisting) {
-      this.store.clear();
-    }
-
-    let processedCount = 0;
-    const batchSize = 1000; // Process in batches to avoid memory issues
-
-    for (let i = 0; i < messages.length; i += batchSize) {
-      const batch = messages.slice(i, i + batchSize);
-
-      for (const msg of batch) {
-        this.store.addPrefix(msg.prefix, msg.suffix, msg.weight || 1);
-        processedCount++;
-      }
-
-      // Yield control periodically to prevent blocking
-      if (i % 5000 === 0) {
-        await new Promise(resolve => setImmediate(resolve));
-      }
-    }
-
-    await this.store.save(); // Ensure all changes are saved
-
-    return {
-      success: true,
-      result: { processedCount, workerId: this.workerId },
-      workerId: this.workerId
-    };
-  }
-
-  /**
-   * Generate response using the store
+   * Generate response using the store, with the same quality filter as every backend
    */
   private async handleGenerateResponse(data: {
+    guildId: string;
     prefix: string;
     maxLength?: number;
     temperature?: number;
+    topK?: number;
+    topP?: number;
+    maxTries?: number;
+    minScore?: number;
+    keywords?: string[];
   }): Promise<WorkerResponse> {
-    const { prefix, maxLength = 50, temperature = 1.0 } = data;
-
-    // For now, use basic generation - could add temperature sampling later
-    const words = this.store.generate(prefix, maxLength);
-    const response = words.join(' ');
-
+    const {
+      guildId,
+      prefix,
+      maxLength = 50,
+      temperature,
+      topK,
+      topP,
+      maxTries = 1,
+      minScore = 0,
+      keywords = []
+    } = data;
+    const result = generateFromStore(this.getStore(guildId), {
+      seed: prefix,
+      maxLength,
+      sampling: { temperature, topK, topP },
+      maxTries,
+      minScore,
+      keywords
+    });
     return {
       success: true,
-      result: { response, wordCount: words.length },
+      result,
       workerId: this.workerId
     };
   }
 
   /**
-   * Handle batch updates to the store
+   * Tokenize training messages into chain deltas for the main thread to merge
    */
-  private async handleBatchUpdate(data: {
-    updates: Array<{ prefix: string; suffix: string; weight: number }>;
-    operation: 'add' | 'remove';
+  private async handleBuildChains(data: {
+    messages: TrainingMessage[];
+    stateSize: number;
   }): Promise<WorkerResponse> {
-    const { updates, operation } = data;
-
-    if (operation === 'remove') {
-      for (const update of updates) {
-        this.store.removePrefix(update.prefix);
-      }
-    } else {
-      for (const update of updates) {
-        this.store.addPrefix(update.prefix, update.suffix, update.weight);
+    const deltas: ChainDelta[] = [];
+    for (const message of data.messages) {
+      // Sentences shorter than the state size have no prefix to start from
+      const links = buildChainLinks(message.string, data.stateSize);
+      if (links.length > 0) {
+        deltas.push({ links, tags: message.tags ?? [], custom: message.custom });
       }
     }
-
-    await this.store.save();
-
     return {
       success: true,
-      result: { updateCount: updates.length, operation },
+      result: deltas,
       workerId: this.workerId
     };
   }
@@ -174,10 +232,10 @@ class MarkovWorker {
    * Get worker statistics
    */
   private async handleStats(): Promise<WorkerResponse> {
-    const stats = this.store.getStats();
+    const guilds = Array.from(this.stores, ([guildId, store]) => ({ guildId, ...store.getStats() }));
     return {
       success: true,
-      result: { ...stats, workerId: this.workerId },
+      result: { guilds, workerId: this.workerId },
       workerId: this.workerId
     };
   }
@@ -189,15 +247,29 @@ class MarkovWorker {
 async function main() {
   try {
     const worker = new MarkovWorker(workerData);
-    await worker.init();
-
-    // Set up message handler
-    parentPort?.on('message', async (message: WorkerMessage) => {
-      const response = await worker.processMessage(message);
 
-      if (parentPort) {
-        parentPort.postMessage(response);
-      }
+    // Handle messages one at a time so store updates apply in the order they were sent
+    let queue = Promise.resolve();
+    parentPort?.on('message', (message: WorkerMessage) => {
+      if (message.type === 'shutdown') process.exit(0);
+
+      queue = queue.then(async () => {
+        if (message.type === 'load-store') {
+          parentPort?.postMessage(await worker.loadStore(message.data));
+          return;
+        }
+        try {
+          if (await worker.applyUpdate(message)) return;
+        } catch (error) {
+          L.error({ workerId: workerData.workerId, error }, 'Failed to apply store update');
+          return;
+        }
+        const response = await worker.processMessage(message);
+
+        if (parentPort) {
+          parentPort.postMessage(response);
+        }
+      });
     });
 
     // Signal readiness
@@ -2,11 +2,22 @@ import { Worker } from 'worker_threads';
 import { EventEmitter } from 'events';
 import path from 'path';
 import L from '../logger';
+import { config } from '../config';
+import { observeWorkerQueueWait, observeWorkerTask } from '../metrics';
+import {
+  getMarkovStore,
+  MarkovStore,
+  SamplingOptions,
+  StoreOp,
+  storeEvents,
+  withMarkovStore
+} from '../markov-store';
+import type { ChainDelta, GenerationResult, TrainingMessage } from './markov-worker';
 
 /**
  * Worker task types
  */
-export type WorkerTaskType = 'build-chains' | 'generate-response' | 'batch-update' | 'stats';
+export type WorkerTaskType = 'generate-response' | 'build-chains' | 'stats';
 
 /**
  * Worker task with promise resolution
@@ -19,26 +30,122 @@ interface WorkerTask {
   reject: (error: Error) => void;
   priority: number; // 0 = low, 1 = normal, 2 = high
   timestamp: number;
+  /** When a worker took the task */
+  startedAt?: number;
+  /** Run on this worker only, e.g. for per-worker stats */
+  workerId?: number;
+}
+
+/**
+ * A guild snapshot sent to a worker, waiting for the worker to confirm it loaded
+ */
+interface PendingStoreLoad {
+  guildId: string;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Number of task priorities, from 0 (low) to 2 (high)
+ */
+const PRIORITY_LEVELS = 3;
+
+/**
+ * Worker pool limits
+ */
+export interface WorkerPoolOptions {
+  /** Maximum number of queued tasks; new tasks are rejected while the queue is full */
+  maxQueueSize?: number;
+  /** Time a task may run before it is rejected and its worker restarted */
+  taskTimeoutMs?: number;
 }
 
 /**
  * Worker pool for managing Markov worker threads
+ *
+ * The main thread owns every guild's store. Workers hold replicas: a guild's snapshot is sent
+ * to a worker before its first task for that guild, followed by every change made to it. The
+ * task waits for the worker to confirm it loaded the snapshot.
  */
 export class WorkerPool extends EventEmitter {
   private workers: Worker[] = [];
-  private taskQueue: WorkerTask[] = [];
-  private activeTasks = new Map<string, WorkerTask>();
+  /** Queued tasks for each priority, oldest first */
+  private taskQueues: WorkerTask[][] = Array.from({ length: PRIORITY_LEVELS }, () => []);
+  private queuedCount = 0;
+  private activeTasks = new Map<number, WorkerTask>();
+  private taskTimers = new Map<number, NodeJS.Timeout>();
+  /** Guilds each worker holds a replica of */
+  private workerGuilds = new Map<number, Set<string>>();
+  /** The snapshot each worker is loading, if any */
+  private pendingLoads = new Map<number, PendingStoreLoad>();
   private readonly maxWorkers: number;
+  private readonly maxQueueSize: number;
+  private readonly taskTimeoutMs: number;
   private readonly workerPath: string;
+  private rejectedTasks = 0;
+  private timedOutTasks = 0;
+  private recycledWorkers = 0;
+  private dispatchedTasks = 0;
+  private totalQueueWaitMs = 0;
 
-  constructor(maxWorkers = 4) {
+  constructor(maxWorkers = 4, options: WorkerPoolOptions = {}) {
     super();
     this.maxWorkers = maxWorkers;
+    this.maxQueueSize = options.maxQueueSize ?? 1000;
+    this.taskTimeoutMs = options.taskTimeoutMs ?? 10000;
     this.workerPath = path.join(__dirname, 'markov-worker.js');
 
+    storeEvents.on('op', this.handleStoreOp);
+    storeEvents.on('evict', this.handleStoreEvict);
     this.initializeWorkers();
   }
 
+  private isLoading(workerId: number, guildId: string): boolean {
+    return this.pendingLoads.get(workerId)?.guildId === guildId;
+  }
+
+  /**
+   * Forward a change to every worker holding or loading the guild's replica
+   */
+  private handleStoreOp = (guildId: string, op: StoreOp): void => {
+    this.workerGuilds.forEach((guilds, workerId) => {
+      if (guilds.has(guildId) || this.isLoading(workerId, guildId)) {
+        this.workers[workerId]?.postMessage({ type: 'store-op', data: { guildId, op } });
+      }
+    });
+  };
+
+  /**
+   * Drop replicas of stores the main thread no longer keeps in memory
+   */
+  private handleStoreEvict = (guildId: string): void => {
+    this.workerGuilds.forEach((guilds, workerId) => {
+      const loading = this.isLoading(workerId, guildId);
+      if (guilds.delete(guildId) || loading) {
+        this.workers[workerId]?.postMessage({ type: 'unload-store', data: { guildId } });
+      }
+      if (loading) {
+        this.settleLoad(workerId, new Error(`Guild ${guildId} was evicted while loading`));
+      }
+    });
+  };
+
+  /**
+   * Finish waiting for a worker to load a snapshot
+   * @param error Why the load failed, if it did
+   */
+  private settleLoad(workerId: number, error?: Error): void {
+    const load = this.pendingLoads.get(workerId);
+    if (!load) return;
+    this.pendingLoads.delete(workerId);
+    if (error) {
+      load.reject(error);
+    } else {
+      this.workerGuilds.get(workerId)?.add(load.guildId);
+      load.resolve();
+    }
+  }
+
   /**
    * Initialize worker threads
    */
@@ -66,6 +173,7 @@ export class WorkerPool extends EventEmitter {
         if (message.success && message.result?.status === 'ready') {
           L.info({ workerId }, 'Worker ready');
           resolve();
+          this.processNextTask();
         } else {
           reject(new Error(message.error || 'Worker failed to initialize'));
         }
@@ -84,12 +192,22 @@ export class WorkerPool extends EventEmitter {
 
       // Handle task results
       worker.on('message', (message) => {
+        if (message.result?.status === 'ready') return;
+        if (message.type === 'load-store') {
+          this.settleLoad(
+            workerId,
+            message.success ? undefined : new Error(message.error || 'Failed to load guild store')
+          );
+          return;
+        }
         if (message.success === false || message.success === true) {
           this.handleTaskResult(message);
         }
       });
 
       this.workers[workerId] = worker;
+      // A new worker starts without any replicas
+      this.workerGuilds.set(workerId, new Set());
       this.emit('workerCreated', workerId);
     });
   }
@@ -98,27 +216,20 @@ export class WorkerPool extends EventEmitter {
    * Handle worker errors
    */
   private handleWorkerError(workerId: number, error: Error): void {
-    L.error({ workerId, error: error.message }, 'Worker error, restarting');
-
-    // Remove failed worker
-    const worker = this.workers[workerId];
-    if (worker) {
-      worker.terminate();
-      delete this.workers[workerId];
-    }
-
-    // Restart worker
-    setTimeout(() => {
-      this.createWorker(workerId).catch((err) => {
-        L.error({ workerId, error: err }, 'Failed to restart worker');
-      });
-    }, 1000);
+    // The worker exits after an uncaught error, and is restarted from the exit handler
+    this.finishTask(workerId)?.reject(error);
   }
 
   /**
    * Handle worker exit
    */
   private handleWorkerExit(workerId: number, code: number): void {
+    delete this.workers[workerId];
+    this.workerGuilds.delete(workerId);
+    const error = new Error(`Worker ${workerId} exited with code ${code}`);
+    this.settleLoad(workerId, error);
+    this.finishTask(workerId)?.reject(error);
+
     if (code !== 0) {
       L.warn({ workerId, code }, 'Worker exited with non-zero code, restarting');
       setTimeout(() => {
@@ -133,14 +244,13 @@ export class WorkerPool extends EventEmitter {
    * Handle task completion
    */
   private handleTaskResult(message: any): void {
-    const task = this.activeTasks.get(message.workerId);
+    const task = this.finishTask(message.workerId);
     if (!task) {
       L.warn({ workerId: message.workerId }, 'Received result for unknown task');
       return;
     }
 
-    this.activeTasks.delete(message.workerId);
-
+    observeWorkerTask(task.type, Date.now() - (task.startedAt ?? task.timestamp), !message.success);
     if (message.success) {
       task.resolve(message.result);
     } else {
@@ -152,43 +262,154 @@ export class WorkerPool extends EventEmitter {
   }
 
   /**
-   * Process next task from queue
+   * Stop tracking a worker's active task
+   * @returns The task, if the worker had one
+   */
+  private finishTask(workerId: number): WorkerTask | undefined {
+    const task = this.activeTasks.get(workerId);
+    this.activeTasks.delete(workerId);
+    clearTimeout(this.taskTimers.get(workerId));
+    this.taskTimers.delete(workerId);
+    return task;
+  }
+
+  /**
+   * Reject a task that missed its deadline and replace its worker, which may be stuck
+   */
+  private handleTaskTimeout(workerId: number, task: WorkerTask): void {
+    if (this.activeTasks.get(workerId) !== task) return;
+    this.finishTask(workerId);
+    this.timedOutTasks++;
+    observeWorkerTask(task.type, Date.now() - (task.startedAt ?? task.timestamp), true);
+    L.warn({ workerId, taskId: task.id, type: task.type }, 'Worker task timed out, restarting worker');
+    task.reject(new Error(`Worker task ${task.type} timed out after ${this.taskTimeoutMs}ms`));
+
+    const worker = this.workers[workerId];
+    delete this.workers[workerId];
+    this.workerGuilds.delete(workerId);
+    this.settleLoad(workerId, new Error(`Worker ${workerId} was restarted`));
+    this.recycledWorkers++;
+    if (worker) {
+      worker.removeAllListeners();
+      worker.terminate();
+    }
+    this.createWorker(workerId).catch((err) => {
+      L.error({ workerId, error: err }, 'Failed to restart worker');
+    });
+  }
+
+  /**
+   * Dispatch queued tasks, highest priority first, until no idle worker can take one
    */
   private processNextTask(): void {
-    if (this.taskQueue.length === 0) return;
+    let dispatched = true;
+    while (dispatched && this.queuedCount > 0 && this.activeTasks.size < this.workers.length) {
+      dispatched = false;
+      for (let priority = PRIORITY_LEVELS - 1; priority >= 0 && !dispatched; priority--) {
+        const queue = this.taskQueues[priority];
+        for (let i = 0; i < queue.length; i++) {
+          const workerId = this.pickWorker(queue[i]);
+          if (workerId !== -1) {
+            const [task] = queue.splice(i, 1);
+            this.queuedCount--;
+            this.startTask(workerId, task);
+            dispatched = true;
+            break;
+          }
+        }
+      }
+    }
+  }
+
+  private isIdle(workerId: number): boolean {
+    return !!this.workers[workerId] && !this.activeTasks.has(workerId);
+  }
 
-    // Find available worker
-    const availableWorkerId = this.findAvailableWorker();
-    if (availableWorkerId === -1) return;
+  /**
+   * Choose an idle worker for a task, preferring one that already holds the task's guild and
+   * otherwise the one holding the fewest guilds
+   * @returns The worker ID, or -1 if no suitable worker is idle
+   */
+  private pickWorker(task: WorkerTask): number {
+    if (task.workerId !== undefined) return this.isIdle(task.workerId) ? task.workerId : -1;
 
-    // Get highest priority task
-    const sortedTasks = this.taskQueue.sort((a, b) => b.priority - a.priority);
-    const task = sortedTasks.shift()!;
+    const guildId: string | undefined = task.data?.guildId;
+    let best = -1;
+    for (let i = 0; i < this.maxWorkers; i++) {
+      if (this.isIdle(i)) {
+        const guilds = this.workerGuilds.get(i);
+        if (guildId && guilds?.has(guildId)) return i;
+        if (best === -1 || (guilds?.size ?? 0) < (this.workerGuilds.get(best)?.size ?? 0)) {
+          best = i;
+        }
+      }
+    }
+    return best;
+  }
 
-    this.taskQueue = sortedTasks;
-    this.activeTasks.set(String(availableWorkerId), task);
+  private startTask(workerId: number, task: WorkerTask): void {
+    this.activeTasks.set(workerId, task);
+    this.dispatchedTasks++;
+    task.startedAt = Date.now();
+    this.totalQueueWaitMs += task.startedAt - task.timestamp;
+    observeWorkerQueueWait(task.type, task.startedAt - task.timestamp);
 
     // Send task to worker
-    const worker = this.workers[availableWorkerId];
-    if (worker) {
-      worker.postMessage({
-        type: task.type,
-        data: task.data,
-        taskId: task.id
-      });
+    this.dispatchTask(workerId, task).catch((error) => {
+      // The task may already have been rejected, e.g. when its worker exited while loading
+      if (this.activeTasks.get(workerId) !== task) return;
+      this.finishTask(workerId);
+      task.reject(error instanceof Error ? error : new Error(String(error)));
+      this.processNextTask();
+    });
+  }
+
+  /**
+   * Send a task to a worker, first sending the guild's store if the worker doesn't have it.
+   * The task's deadline starts once the worker holds the store, since decoding a large snapshot
+   * can take longer than the task itself.
+   */
+  private async dispatchTask(workerId: number, task: WorkerTask): Promise<void> {
+    const guildId: string | undefined = task.data?.guildId;
+    if (guildId && !this.workerGuilds.get(workerId)?.has(guildId)) {
+      await this.loadStore(workerId, guildId);
     }
+
+    const worker = this.workers[workerId];
+    if (!worker) throw new Error(`Worker ${workerId} is unavailable`);
+    if (this.activeTasks.get(workerId) !== task) return;
+    this.taskTimers.set(
+      workerId,
+      setTimeout(() => this.handleTaskTimeout(workerId, task), this.taskTimeoutMs),
+    );
+    worker.postMessage({
+      type: task.type,
+      data: task.data,
+      taskId: task.id
+    });
   }
 
   /**
-   * Find available worker
+   * Send a guild's snapshot to a worker
+   * @returns Once the worker has loaded it
+   * @throws If the worker fails to load it or exits first
    */
-  private findAvailableWorker(): number {
-    for (let i = 0; i < this.maxWorkers; i++) {
-      if (this.workers[i] && !this.activeTasks.has(String(i))) {
-        return i;
-      }
+  private async loadStore(workerId: number, guildId: string): Promise<void> {
+    const store = await getMarkovStore(guildId);
+    const worker = this.workers[workerId];
+    if (!worker || !this.workerGuilds.has(workerId)) {
+      throw new Error(`Worker ${workerId} is unavailable`);
     }
-    return -1;
+
+    await new Promise<void>((resolve, reject) => {
+      this.pendingLoads.set(workerId, { guildId, resolve, reject });
+      // The snapshot is encoded and posted synchronously, so every later op reaches the
+      // worker after it
+      worker.postMessage({
+        type: 'load-store',
+        data: { guildId, snapshot: store.encodeSnapshot() },
+      });
+    });
   }
 
   /**
@@ -197,40 +418,81 @@ export class WorkerPool extends EventEmitter {
   async submitTask(
     type: WorkerTaskType,
     data: any,
-    priority = 1
+    priority = 1,
+    workerId?: number
   ): Promise<any> {
+    if (this.queuedCount >= this.maxQueueSize) {
+      this.rejectedTasks++;
+      throw new Error(`Worker pool queue is full (${this.maxQueueSize} tasks)`);
+    }
+
     return new Promise((resolve, reject) => {
+      const level = Math.min(Math.max(Math.floor(priority), 0), PRIORITY_LEVELS - 1);
       const task: WorkerTask = {
         id: `${type}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
         type,
         data,
         resolve,
         reject,
-        priority,
-        timestamp: Date.now()
+        priority: level,
+        timestamp: Date.now(),
+        workerId
       };
 
-      this.taskQueue.push(task);
+      this.taskQueues[level].push(task);
+      this.queuedCount++;
       this.processNextTask();
     });
   }
 
   /**
-   * Build chains from training data
+   * Train a guild's store: messages are tokenized into chain deltas in parallel across the
+   * workers, then merged into the main thread's store, which replicates them to workers
+   * @returns How many messages were read and how many were long enough to be added
    */
   async buildChains(
     guildId: string,
-    messages: Array<{ prefix: string; suffix: string; weight?: number }>,
-    clearExisting = false,
-    priority = 1
-  ): Promise<{ processedCount: number }> {
-    const workerData = {
-      guildId,
-      messages,
-      clearExisting
-    };
+    messages: TrainingMessage[],
+    stateSize = config.stateSize,
+    priority = 0
+  ): Promise<{ processedCount: number; addedCount: number }> {
+    // Keep the store cached until the deltas are merged into it
+    return withMarkovStore(guildId, store =>
+      this.buildStoreChains(store, messages, stateSize, priority)
+    );
+  }
+
+  private async buildStoreChains(
+    store: MarkovStore,
+    messages: TrainingMessage[],
+    stateSize: number,
+    priority: number
+  ): Promise<{ processedCount: number; addedCount: number }> {
+    if (!store.isCompatibleStateSize(stateSize)) {
+      L.warn(
+        { storeStateSize: store.getStateSize(), stateSize },
+        'Skipping data with a different state size than the store. Re-train to change it.',
+      );
+      return { processedCount: messages.length, addedCount: 0 };
+    }
 
-    return this.submitTask('build-chains', workerData, priority);
+    const chunkSize = Math.ceil(messages.length / this.maxWorkers);
+    const chunks: Promise<ChainDelta[]>[] = [];
+    for (let i = 0; i < messages.length; i += chunkSize) {
+      chunks.push(
+        this.submitTask('build-chains', { messages: messages.slice(i, i + chunkSize), stateSize }, priority)
+      );
+    }
+
+    // Merge in order, giving the event loop a turn between chunks
+    let addedCount = 0;
+    for (const deltas of await Promise.all(chunks)) {
+      store.addMany(deltas);
+      addedCount += deltas.length;
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    return { processedCount: messages.length, addedCount };
   }
 
   /**
@@ -240,64 +502,82 @@ export class WorkerPool extends EventEmitter {
     guildId: string,
     prefix: string,
     maxLength = 50,
-    temperature = 1.0,
-    priority = 1
-  ): Promise<{ response: string; wordCount: number }> {
+    sampling: SamplingOptions = {},
+    priority = 1,
+    quality: { maxTries?: number; minScore?: number; keywords?: string[] } = {}
+  ): Promise<GenerationResult> {
     const workerData = {
       guildId,
       prefix,
       maxLength,
-      temperature
+      ...sampling,
+      ...quality
     };
 
     return this.submitTask('generate-response', workerData, priority);
   }
 
   /**
-   * Batch update chains
+   * Batch update chains in the main thread's store, which replicates them to workers
    */
   async batchUpdate(
     guildId: string,
     updates: Array<{ prefix: string; suffix: string; weight: number }>,
-    operation: 'add' | 'remove',
-    priority = 1
+    operation: 'add' | 'remove'
   ): Promise<{ updateCount: number; operation: string }> {
-    const workerData = {
-      guildId,
-      updates,
-      operation
-    };
+    const store = await getMarkovStore(guildId);
 
-    return this.submitTask('batch-update', workerData, priority);
+    if (operation === 'remove') {
+      for (const update of updates) {
+        store.removePrefix(update.prefix);
+      }
+    } else {
+      for (const update of updates) {
+        store.addPrefix(update.prefix, update.suffix, update.weight);
+      }
+    }
+
+    return { updateCount: updates.length, operation };
   }
 
   /**
-   * Get worker statistics
+   * Get pool and worker statistics
    */
-  async getStats(): Promise<Array<{ workerId: number; stats: any }>> {
+  async getStats(): Promise<{ pool: ReturnType<WorkerPool['getPoolStats']>; workers: any[] }> {
     const promises: Promise<any>[] = [];
 
     for (let i = 0; i < this.maxWorkers; i++) {
       if (this.workers[i]) {
         promises.push(
-          this.submitTask('stats', { workerId: i }, 0)
+          this.submitTask('stats', { workerId: i }, 0, i)
         );
       }
     }
 
-    return Promise.all(promises);
+    return { pool: this.getPoolStats(), workers: await Promise.all(promises) };
   }
 
   /**
-   * Get pool statistics
+   * Get pool statistics, including queue depth
    */
   getPoolStats() {
+    const now = Date.now();
+    const oldestQueued = Math.min(
+      ...this.taskQueues.filter(queue => queue.length > 0).map(queue => queue[0].timestamp)
+    );
     return {
       totalWorkers: this.maxWorkers,
       activeWorkers: this.activeTasks.size,
-      queuedTasks: this.taskQueue.length,
+      queuedTasks: this.queuedCount,
+      queuedByPriority: this.taskQueues.map(queue => queue.length),
+      maxQueueSize: this.maxQueueSize,
+      oldestQueuedMs: Number.isFinite(oldestQueued) ? now - oldestQueued : 0,
+      averageQueueWaitMs: this.dispatchedTasks > 0 ? this.totalQueueWaitMs / this.dispatchedTasks : 0,
+      rejectedTasks: this.rejectedTasks,
+      timedOutTasks: this.timedOutTasks,
+      recycledWorkers: this.recycledWorkers,
       activeTasks: Array.from(this.activeTasks.keys()),
-      availableWorkers: this.workers.filter((w, i) => w && !this.activeTasks.has(String(i))).length
+      availableWorkers: this.workers.filter((w, i) => w && !this.activeTasks.has(i)).length
     };
   }
 
@@ -347,7 +627,10 @@ export class WorkerPool extends EventEmitter {
 
     await Promise.all(shutdownPromises);
     this.workers = [];
-    this.taskQueue = [];
+    this.taskQueues = Array.from({ length: PRIORITY_LEVELS }, () => []);
+    this.queuedCount = 0;
+    this.taskTimers.forEach(timer => clearTimeout(timer));
+    this.taskTimers.clear();
     this.activeTasks.clear();
 
     L.info('Force shutdown complete');
@@ -364,7 +647,10 @@ let globalWorkerPool: WorkerPool | null = null;
  */
 export function getWorkerPool(maxWorkers = 4): WorkerPool {
   if (!globalWorkerPool) {
-    globalWorkerPool = new WorkerPool(maxWorkers);
+    globalWorkerPool = new WorkerPool(maxWorkers, {
+      maxQueueSize: config.workerQueueSize,
+      taskTimeoutMs: config.workerTaskTimeoutMs
+    });
   }
   return globalWorkerPool;
 }
@@ -0,0 +1,104 @@
+import 'reflect-metadata';
+import assert from 'assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { getHourInTimezone, isQuietHour, takeAutoResponse } from '../src/auto-respond';
+import { config } from '../src/config';
+import { Channel } from '../src/entity/Channel';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * An auto-responding channel that answers every message, with the given limits
+ */
+function buildChannel(id: string, limits: Partial<Channel> = {}): Channel {
+  return Object.assign(new Channel(), {
+    id,
+    listen: true,
+    autoRespond: true,
+    autoRespondProbability: 1,
+    autoRespondCooldown: 0,
+    autoRespondUserHourlyLimit: 0,
+    quietHoursStart: null,
+    quietHoursEnd: null,
+    ...limits,
+  });
+}
+
+describe('isQuietHour', () => {
+  it('covers the hours from the start up to the end', () => {
+    assert.deepEqual(
+      [8, 9, 16, 17].map((hour) => isQuietHour(hour, 9, 17)),
+      [false, true, true, false],
+    );
+  });
+
+  it('wraps past midnight when the start is after the end', () => {
+    assert.deepEqual(
+      [21, 22, 23, 0, 6, 7, 12].map((hour) => isQuietHour(hour, 22, 7)),
+      [false, true, true, true, true, false, false],
+    );
+  });
+
+  it('has no quiet hours unless both ends are set and differ', () => {
+    assert.equal(isQuietHour(3, null, 7), false);
+    assert.equal(isQuietHour(3, 22, null), false);
+    assert.equal(isQuietHour(3, 5, 5), false);
+  });
+});
+
+describe('getHourInTimezone', () => {
+  it('gets the hour of the day in a timezone', () => {
+    const date = new Date('2024-01-01T23:30:00Z');
+    assert.equal(getHourInTimezone(date, 'UTC'), 23);
+    assert.equal(getHourInTimezone(date, 'Asia/Tokyo'), 8);
+    assert.equal(getHourInTimezone(date, 'America/New_York'), 18);
+  });
+});
+
+describe('takeAutoResponse', () => {
+  const { timezone } = config;
+  const noon = Date.parse('2024-01-01T12:00:00Z');
+
+  beforeEach(() => {
+    config.timezone = 'UTC';
+  });
+  afterEach(() => {
+    config.timezone = timezone;
+    mock.restoreAll();
+  });
+
+  it('responds to the share of messages set by the probability', () => {
+    const channel = buildChannel('probability', { autoRespondProbability: 0.25 });
+    mock.method(Math, 'random', () => 0.5);
+    assert.equal(takeAutoResponse(channel, 'user', noon), false);
+    channel.autoRespondProbability = 0.75;
+    assert.equal(takeAutoResponse(channel, 'user', noon), true);
+  });
+
+  it('waits out the cooldown after each response in the channel', () => {
+    const channel = buildChannel('cooldown', { autoRespondCooldown: 60 });
+    assert.equal(takeAutoResponse(channel, 'first', noon), true);
+    assert.equal(takeAutoResponse(channel, 'second', noon + 30 * 1000), false);
+    assert.equal(takeAutoResponse(channel, 'second', noon + 60 * 1000), true);
+  });
+
+  it('limits the responses to each member per hour', () => {
+    const channel = buildChannel('hourly-limit', { autoRespondUserHourlyLimit: 2 });
+    assert.equal(takeAutoResponse(channel, 'chatty', noon), true);
+    assert.equal(takeAutoResponse(channel, 'chatty', noon + 1000), true);
+    assert.equal(takeAutoResponse(channel, 'chatty', noon + 2000), false);
+    assert.equal(takeAutoResponse(channel, 'quiet', noon + 2000), true);
+    assert.equal(takeAutoResponse(channel, 'chatty', noon + HOUR_MS), true);
+  });
+
+  it('stays quiet during quiet hours that wrap past midnight', () => {
+    const channel = buildChannel('quiet-hours', { quietHoursStart: 22, quietHoursEnd: 7 });
+    const hours = ['23:00', '03:00', '07:00', '12:00'].map((time) =>
+      Date.parse(`2024-01-01T${time}:00Z`),
+    );
+    assert.deepEqual(
+      hours.map((time) => takeAutoResponse(channel, 'user', time)),
+      [false, false, true, true],
+    );
+  });
+});
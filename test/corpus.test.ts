@@ -0,0 +1,79 @@
+import 'reflect-metadata';
+import assert from 'assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { after, afterEach, before, describe, it, mock } from 'node:test';
+import Markov from 'markov-strings-db';
+import { DataSource } from 'typeorm';
+import { config, CONFIG_DIR } from '../src/config';
+import { getCorpusBackend, MarkovStringsDbBackend } from '../src/corpus';
+import * as guildSettings from '../src/guild-settings';
+import { buildChainLinks, MarkovStore, withMarkovStore } from '../src/markov-store';
+import { migrateGuildToStore } from '../src/migrate-store';
+import ormconfig from '../src/ormconfig';
+
+describe('getCorpusBackend', () => {
+  const { enableMarkovStore } = config;
+  afterEach(() => {
+    config.enableMarkovStore = enableMarkovStore;
+    mock.restoreAll();
+  });
+
+  it('falls back to markov-strings-db when the store file is corrupted', async () => {
+    const guildId = 'corrupted';
+    const store = new MarkovStore(guildId, { persist: false });
+    store.addInput(buildChainLinks('a sentence long enough to save', 2), ['message']);
+    const snapshot = store.encodeSnapshot();
+    fs.writeFileSync(
+      path.join(CONFIG_DIR, `markov_${guildId}.bin`),
+      snapshot.subarray(0, snapshot.length - 4),
+    );
+
+    config.enableMarkovStore = true;
+    mock.method(guildSettings, 'getGuildSettings', async () =>
+      guildSettings.resolveGuildSettings(null),
+    );
+    mock.method(guildSettings, 'getGuildBackend', async () => 'markov-store');
+    const fallback = { name: 'markov-strings-db', guildId } as unknown as MarkovStringsDbBackend;
+    mock.method(MarkovStringsDbBackend, 'create', async () => fallback);
+
+    assert.equal(await getCorpusBackend(guildId), fallback);
+  });
+});
+
+describe('migrateGuildToStore', () => {
+  let dataSource: DataSource;
+
+  before(async () => {
+    dataSource = new DataSource(
+      Markov.extendDataSourceOptions({ ...ormconfig, database: ':memory:', synchronize: true }),
+    );
+    await dataSource.initialize();
+  });
+
+  after(() => dataSource.destroy());
+
+  it('keeps the tags of migrated messages and checks them against the database', async () => {
+    const guildId = 'migrated';
+    const source = await MarkovStringsDbBackend.create(guildId, config.stateSize);
+    await source.add([
+      { string: 'the quick brown fox jumps over the lazy dog', tags: ['message-1', guildId] },
+      { string: 'the quick red fox naps', tags: ['message-2', guildId] },
+      { string: 'short', tags: ['message-3', guildId] },
+    ]);
+
+    const result = await migrateGuildToStore(source, { switchBackend: false });
+    assert.equal(result.verified, true);
+    assert.equal(result.check.expectedMessages, 3);
+    assert.ok(result.check.checkedChains > 0);
+
+    await withMarkovStore(guildId, (store) => {
+      assert.equal(store.getStats().inputCount, 2);
+      assert.equal(store.removeTags(['message-1']), 1);
+      assert.deepEqual(
+        store.getInputRefs().map((ref) => ref.string),
+        ['the quick red fox naps'],
+      );
+    });
+  });
+});
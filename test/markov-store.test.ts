@@ -0,0 +1,408 @@
+import assert from 'assert/strict';
+import { describe, it, mock } from 'node:test';
+import fs from 'fs/promises';
+import path from 'path';
+import { CONFIG_DIR } from '../src/config/setup';
+import {
+  buildChainLinks,
+  MarkovStore,
+  SamplingOptions,
+  StoreOp,
+  storeEvents,
+} from '../src/markov-store';
+import { BinaryReader, BinaryWriter } from '../src/store-codec';
+
+const STATE_SIZES = [1, 2, 3, 4];
+
+/**
+ * Two sentences that share their middle `stateSize - 1` words, so only a full window of
+ * `stateSize` words tells them apart
+ */
+function branchingSentences(stateSize: number): string[][] {
+  const shared = Array.from({ length: stateSize - 1 }, (_, i) => `shared${i}`);
+  return [
+    ['first', ...shared, 'ends', 'here'],
+    ['second', ...shared, 'stops', 'there'],
+  ];
+}
+
+function buildStore(guildId: string, stateSize: number, options = { persist: false }) {
+  const store = new MarkovStore(guildId, options);
+  branchingSentences(stateSize).forEach((words, i) => {
+    store.addInput(buildChainLinks(words.join(' '), stateSize), [`message${i}`]);
+  });
+  return store;
+}
+
+describe('MarkovStore state size', () => {
+  STATE_SIZES.forEach((stateSize) => {
+    describe(`with a state size of ${stateSize}`, () => {
+      it('generates with a window of that many words', () => {
+        const store = buildStore(`generate-${stateSize}`, stateSize);
+        assert.equal(store.getStateSize(), stateSize);
+        branchingSentences(stateSize).forEach((words) => {
+          const seed = words.slice(0, stateSize).join(' ');
+          for (let i = 0; i < 20; i++) {
+            assert.deepEqual(store.generate(seed), words);
+          }
+        });
+      });
+
+      it('only generates links it learned when unseeded', () => {
+        const store = buildStore(`unseeded-${stateSize}`, stateSize);
+        const sentences = branchingSentences(stateSize).map((words) => words.join(' '));
+        for (let i = 0; i < 20; i++) {
+          assert.ok(sentences.includes(store.generate().join(' ')));
+        }
+      });
+
+      it('keeps its state size and chains through a save and load', async () => {
+        const guildId = `round-trip-${stateSize}`;
+        const saved = buildStore(guildId, stateSize, { persist: true });
+        await saved.flush();
+
+        const loaded = new MarkovStore(guildId);
+        await loaded.load();
+        assert.equal(loaded.isCorrupted(), false);
+        assert.equal(loaded.getStateSize(), stateSize);
+        assert.deepEqual(loaded.getAllPrefixes().sort(), saved.getAllPrefixes().sort());
+        const counts = (store: MarkovStore) => {
+          const { prefixCount, totalSuffixes, totalWeight, startCount, inputCount } =
+            store.getStats();
+          return { prefixCount, totalSuffixes, totalWeight, startCount, inputCount };
+        };
+        assert.deepEqual(counts(loaded), counts(saved));
+        branchingSentences(stateSize).forEach((words) => {
+          assert.deepEqual(loaded.generate(words.slice(0, stateSize).join(' ')), words);
+        });
+        await loaded.flush();
+      });
+    });
+  });
+
+  it('refuses data with another state size after loading', async () => {
+    const guildId = 'mismatch';
+    const saved = buildStore(guildId, 3, { persist: true });
+    await saved.flush();
+
+    const loaded = new MarkovStore(guildId);
+    await loaded.load();
+    assert.equal(loaded.isCompatibleStateSize(3), true);
+    assert.equal(loaded.isCompatibleStateSize(2), false);
+    assert.throws(
+      () => loaded.addInput(buildChainLinks('a different sentence entirely', 2)),
+      /state size of 3/,
+    );
+    assert.throws(() => loaded.addPrefix('two words', 'next'), /state size of 3/);
+    assert.equal(loaded.getStats().inputCount, 2);
+    await loaded.flush();
+  });
+
+  it('takes the state size of the first data added to an empty store', () => {
+    const store = new MarkovStore('empty', { persist: false });
+    assert.equal(store.getStateSize(), null);
+    assert.equal(store.isCompatibleStateSize(4), true);
+    store.addInput(buildChainLinks('one two three four five', 4));
+    assert.equal(store.getStateSize(), 4);
+    assert.equal(store.isCompatibleStateSize(1), false);
+  });
+});
+
+describe('MarkovStore stats', () => {
+  const totals = (store: MarkovStore) => {
+    const { prefixCount, totalSuffixes, totalWeight } = store.getStats();
+    return { prefixCount, totalSuffixes, totalWeight };
+  };
+
+  it('keeps its totals up to date as data is added and removed', () => {
+    const [first, second] = branchingSentences(2).map((words) => words.join(' '));
+    const store = new MarkovStore('stats', { persist: false });
+    store.addInput(buildChainLinks(first, 2), ['first']);
+    store.addInput(buildChainLinks(second, 2), ['second']);
+    store.addInput(buildChainLinks(second, 2), ['second']);
+    assert.deepEqual(totals(store), { prefixCount: 6, totalSuffixes: 6, totalWeight: 9 });
+
+    const expected = new MarkovStore('stats-expected', { persist: false });
+    expected.addInput(buildChainLinks(second, 2));
+    store.removeTags(['first']);
+    store.removeTags(['second']);
+    store.addInput(buildChainLinks(second, 2));
+    assert.deepEqual(totals(store), totals(expected));
+
+    store.removePrefix('shared0 stops');
+    expected.removePrefix('shared0 stops');
+    assert.deepEqual(totals(store), totals(expected));
+    assert.deepEqual(totals(store), { prefixCount: 2, totalSuffixes: 2, totalWeight: 2 });
+
+    store.clear();
+    assert.deepEqual(totals(store), { prefixCount: 0, totalSuffixes: 0, totalWeight: 0 });
+  });
+});
+
+describe('MarkovStore provenance', () => {
+  it('forgets a message removed by any of its tags, keeping links other messages share', () => {
+    const store = new MarkovStore('provenance', { persist: false });
+    store.addInput(buildChainLinks('the cat sat down', 2), ['message1', 'author1']);
+    store.addInput(buildChainLinks('the cat ran away', 2), ['message2', 'author2']);
+
+    const { words, refs } = store.sample('the cat ran');
+    assert.deepEqual(words, ['the', 'cat', 'ran', 'away']);
+    assert.deepEqual(
+      refs.map((id) => store.getInputRef(id)?.string),
+      ['the cat ran away'],
+    );
+
+    assert.equal(store.removeTags(['author1']), 1);
+    assert.equal(store.removeTags(['author1']), 0);
+    assert.deepEqual(
+      store.getInputRefs().map(({ string, tags }) => ({ string, tags })),
+      [{ string: 'the cat ran away', tags: ['message2', 'author2'] }],
+    );
+    assert.equal(store.hasLink('the cat', 'sat'), false);
+    assert.equal(store.hasLink('the cat', 'ran'), true);
+    for (let i = 0; i < 20; i++) {
+      assert.deepEqual(store.generate('the cat'), ['the', 'cat', 'ran', 'away']);
+    }
+  });
+});
+
+describe('MarkovStore sampling', () => {
+  // "pick" is followed by "often" 6 times, "sometimes" 3 times and "rarely" once
+  const FOLLOWERS = { often: 6, sometimes: 3, rarely: 1 };
+
+  function buildWeightedStore(guildId: string) {
+    const store = new MarkovStore(guildId, { persist: false });
+    Object.entries(FOLLOWERS).forEach(([word, count]) => {
+      for (let i = 0; i < count; i++) {
+        store.addInput(buildChainLinks(`pick ${word}`, 1), [`${word}${i}`]);
+      }
+    });
+    return store;
+  }
+
+  const draw = (store: MarkovStore, options: SamplingOptions) =>
+    new Set(Array.from({ length: 200 }, () => store.getNext('pick', options)));
+
+  it('only picks from the k most frequent words with top-k', () => {
+    const store = buildWeightedStore('top-k');
+    assert.deepEqual(draw(store, { topK: 1 }), new Set(['often']));
+    assert.deepEqual(draw(store, { topK: 2 }), new Set(['often', 'sometimes']));
+  });
+
+  it('only picks from the most frequent words making up the top-p share', () => {
+    const store = buildWeightedStore('top-p');
+    assert.deepEqual(draw(store, { topP: 0.5 }), new Set(['often']));
+    assert.deepEqual(draw(store, { topP: 0.8 }), new Set(['often', 'sometimes']));
+  });
+
+  it('favours common words at a low temperature and evens out at a high one', () => {
+    const store = buildWeightedStore('temperature');
+    assert.deepEqual(draw(store, { temperature: 0.01 }), new Set(['often']));
+    assert.deepEqual(draw(store, { temperature: 100 }), new Set(Object.keys(FOLLOWERS)));
+  });
+
+  it('only generates links it learned with any sampling options', () => {
+    const store = buildStore('sampling-links', 2);
+    const optionSets: SamplingOptions[] = [
+      { temperature: 0.5 },
+      { temperature: 2 },
+      { topK: 1 },
+      { topP: 0.3 },
+      { temperature: 1.5, topK: 2, topP: 0.9 },
+    ];
+    optionSets.forEach((options) => {
+      for (let i = 0; i < 20; i++) {
+        const words = store.generate('', 50, options);
+        assert.ok(store.isStart(words.slice(0, 2).join(' ')));
+        for (let j = 2; j < words.length; j++) {
+          assert.ok(store.hasLink(words.slice(j - 2, j).join(' '), words[j]));
+        }
+      }
+    });
+  });
+});
+
+describe('MarkovStore seeding', () => {
+  const SENTENCES = ['the quick brown fox jumps', 'a lazy dog sleeps here'];
+
+  function buildSeededStore(guildId: string) {
+    const store = new MarkovStore(guildId, { persist: false });
+    SENTENCES.forEach((sentence, i) => {
+      store.addInput(buildChainLinks(sentence, 3), [`message${i}`]);
+    });
+    return store;
+  }
+
+  it('continues a seed ending in a full prefix', () => {
+    const { words, strategy } = buildSeededStore('seed-full').sample('so the quick brown');
+    assert.equal(strategy, 'full');
+    assert.deepEqual(words, ['so', 'the', 'quick', 'brown', 'fox', 'jumps']);
+  });
+
+  it('backs off to a prefix ending with the last words of the seed', () => {
+    const { words, strategy } = buildSeededStore('seed-backoff').sample('my lazy dog');
+    assert.equal(strategy, 'backoff');
+    assert.deepEqual(words, ['my', 'lazy', 'dog', 'sleeps', 'here']);
+  });
+
+  it('starts from a prefix with a word of the seed when its ending is unknown', () => {
+    const { words, strategy } = buildSeededStore('seed-keyword').sample('jumps over everything');
+    assert.equal(strategy, 'keyword');
+    assert.deepEqual(words, ['brown', 'fox', 'jumps']);
+  });
+
+  it('starts a sentence when nothing in the seed is known', () => {
+    const { words, strategy } = buildSeededStore('seed-unseeded').sample('nothing matches at all');
+    assert.equal(strategy, 'unseeded');
+    assert.ok(SENTENCES.includes(words.join(' ')));
+  });
+});
+
+describe('MarkovStore persistence', () => {
+  const contents = (store: MarkovStore) => {
+    const { prefixCount, totalSuffixes, totalWeight, startCount, inputCount } = store.getStats();
+    const inputs = store.getInputRefs().map(({ id, string, tags }) => ({ id, string, tags }));
+    return { prefixCount, totalSuffixes, totalWeight, startCount, inputCount, inputs };
+  };
+
+  it('snapshots the store as it was when the snapshot began while it keeps changing', async () => {
+    const guildId = 'changing';
+    const store = new MarkovStore(guildId);
+    // Large enough that the snapshot is written over several chunks
+    for (let i = 0; i < 3000; i++) {
+      store.addInput(buildChainLinks(`message ${i} says word${i} and more${i}`, 2), [`m${i}`]);
+    }
+
+    // Change the store once the first chunk is written, after the chains of the first inputs
+    // and before those of the last
+    const { drain } = BinaryWriter.prototype;
+    let changes = 0;
+    mock.method(BinaryWriter.prototype, 'drain', function (this: BinaryWriter) {
+      if (changes === 0) {
+        for (let i = 0; i < 10; i++) {
+          store.removeTags([`m${i}`, `m${2990 + i}`]);
+          store.addInput(buildChainLinks(`message ${i} says something new`, 2), [`new${i}`]);
+          store.removePrefix(`and more${2980 + i}`);
+          changes += 1;
+        }
+      }
+      return drain.call(this);
+    });
+    try {
+      await store.flush();
+    } finally {
+      mock.restoreAll();
+    }
+    assert.equal(changes, 10);
+
+    // The snapshot with the changes logged after it
+    const loaded = new MarkovStore(guildId);
+    await loaded.load();
+    assert.equal(loaded.isCorrupted(), false);
+    assert.deepEqual(contents(loaded), contents(store));
+    await store.flush();
+  });
+
+  it('replays the changes logged since the last snapshot after an unclean stop', async () => {
+    const guildId = 'crashed';
+    const sentences = [
+      'the quick brown fox jumps',
+      'a lazy dog sleeps all day',
+      'the brown dog barks',
+    ];
+    const store = new MarkovStore(guildId);
+    const expected = new MarkovStore(guildId, { persist: false });
+    for (const [i, sentence] of sentences.entries()) {
+      store.addInput(buildChainLinks(sentence, 2), [`m${i}`]);
+      expected.addInput(buildChainLinks(sentence, 2), [`m${i}`]);
+    }
+    await store.flush();
+
+    // Log what a store that stopped before its next snapshot would have, torn mid-write
+    const ops: StoreOp[] = [];
+    const onOp = (opGuildId: string, op: StoreOp) => {
+      if (opGuildId === guildId) ops.push(op);
+    };
+    storeEvents.on('op', onOp);
+    try {
+      expected.addInput(buildChainLinks('a quick dog jumps all day', 2), ['m3']);
+      expected.removeTags(['m1']);
+      expected.removePrefix('brown dog');
+    } finally {
+      storeEvents.off('op', onOp);
+    }
+    const wal = ops.map((op) => `${JSON.stringify(op)}\n`).join('');
+    // The first snapshot starts the second WAL generation
+    await fs.writeFile(path.join(CONFIG_DIR, `markov_${guildId}.1.wal`), `${wal}{"op":"addIn`);
+
+    const loaded = new MarkovStore(guildId);
+    await loaded.load();
+    assert.equal(loaded.isCorrupted(), false);
+    assert.deepEqual(contents(loaded), contents(expected));
+  });
+});
+
+describe('Store codec', () => {
+  it('reads back what it writes, across chunks of a file', async () => {
+    const filePath = path.join(CONFIG_DIR, 'codec.bin');
+    const writer = await BinaryWriter.open(filePath);
+    const numbers = [0, 1, 127, 128, 300, 2 ** 32, 2 ** 48];
+    // Enough words to fill several chunks, each written twice to be interned
+    const words = Array.from({ length: 20000 }, (_, i) => `wörd${i}`);
+    numbers.forEach((number) => writer.writeVarint(number));
+    writer.writeString('héllo wörld');
+    for (const word of [...words, ...words]) {
+      writer.writeWord(word);
+      // eslint-disable-next-line no-await-in-loop
+      if (writer.hasFullChunk()) await writer.drain();
+    }
+    await writer.end();
+
+    const reader = new BinaryReader(filePath);
+    for (const number of numbers) {
+      // eslint-disable-next-line no-await-in-loop
+      assert.equal(await reader.readVarint(), number);
+    }
+    assert.equal(await reader.readString(), 'héllo wörld');
+    for (const word of [...words, ...words]) {
+      // eslint-disable-next-line no-await-in-loop
+      assert.equal(await reader.readWord(), word);
+    }
+    assert.equal(await reader.atEnd(), true);
+    await reader.close();
+  });
+
+  it('rejects a reference to a word it has not read', async () => {
+    const writer = new BinaryWriter();
+    writer.writeWord('known');
+    writer.writeVarint(2);
+
+    const reader = new BinaryReader(writer.toBuffer());
+    assert.equal(await reader.readWord(), 'known');
+    await assert.rejects(reader.readWord(), /Unknown word reference 2/);
+  });
+
+  it('rejects a truncated file', async () => {
+    const writer = new BinaryWriter();
+    writer.writeString('cut short');
+
+    const reader = new BinaryReader(writer.toBuffer().subarray(0, 5));
+    await assert.rejects(reader.readString(), /Unexpected end of store file/);
+  });
+
+  it('leaves a truncated store on disk untouched', async () => {
+    const guildId = 'truncated';
+    const store = new MarkovStore(guildId, { persist: false });
+    store.addInput(buildChainLinks('the quick brown fox jumps', 2), ['m0']);
+    const snapshot = store.encodeSnapshot();
+    const storePath = path.join(CONFIG_DIR, `markov_${guildId}.bin`);
+    await fs.writeFile(storePath, snapshot.subarray(0, snapshot.length - 4));
+
+    const loaded = new MarkovStore(guildId);
+    await loaded.load();
+    assert.equal(loaded.isCorrupted(), true);
+    loaded.addInput(buildChainLinks('a lazy dog sleeps', 2), ['m1']);
+    await loaded.flush();
+    assert.deepEqual(await fs.readFile(storePath), snapshot.subarray(0, snapshot.length - 4));
+  });
+});
@@ -0,0 +1,43 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { buildChainLinks, MarkovStore } from '../src/markov-store';
+import { extractKeywords, includesKeyword } from '../src/reply-context';
+
+describe('extractKeywords', () => {
+  it('skips stopwords, mentions, emoji, links and single letters', () => {
+    assert.deepEqual(
+      extractKeywords(
+        "Hey <@123> <:wave:456> don't https://example.com the Pizza, x, really GREAT?",
+        undefined,
+        10,
+      ),
+      ['pizza', 'great', 'hey'],
+    );
+  });
+
+  it('ranks longer words first without a store', () => {
+    assert.deepEqual(extractKeywords('cat elephant giraffe dog'), ['elephant', 'giraffe', 'cat']);
+  });
+
+  it('keeps only words the store learned, rarest first', () => {
+    const store = new MarkovStore('reply-context', { persist: false });
+    // "pizza" is in three prefixes, "great" in two and "pasta" in one
+    ['pizza is great', 'pizza tastes great', 'pizza beats pasta'].forEach((sentence, i) => {
+      store.addInput(buildChainLinks(sentence, 2), [`message${i}`]);
+    });
+    assert.deepEqual(extractKeywords('Great PASTA and pizza, or sushi?', store), [
+      'pasta',
+      'great',
+      'pizza',
+    ]);
+    assert.deepEqual(extractKeywords('pasta pizza great', store, 1), ['pasta']);
+  });
+});
+
+describe('includesKeyword', () => {
+  it('matches words ignoring case and surrounding punctuation', () => {
+    assert.equal(includesKeyword('I really love PIZZA!', ['pizza']), true);
+    assert.equal(includesKeyword('pizzas are fine', ['pizza']), false);
+    assert.equal(includesKeyword('anything at all', []), false);
+  });
+});
@@ -0,0 +1,15 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { isMainThread } from 'worker_threads';
+
+// Keep stores and the default config written by the tests out of the real config directory.
+// Worker threads inherit the --require and the environment, so only the main thread sets it up.
+if (isMainThread) {
+  const configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'markov-discord-test-'));
+  process.env.CONFIG_DIR = configDir;
+  process.on('exit', () => fs.rmSync(configDir, { recursive: true, force: true }));
+}
+// The config is only valid with a token, though the tests never connect to Discord
+process.env.TOKEN = process.env.TOKEN || 'test-token';
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';